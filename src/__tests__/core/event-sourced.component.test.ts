@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { EventReducer, EventSourcedComponent } from '../../core/event-sourced.component';
+import { Runtime } from '../../core/runtime';
+import { EventStore, ViewData } from '../../core/types';
+import { MemoryEventStore } from '../utils/memory-event-store';
+import { ConcurrencyError } from '../../core/persistence/errors';
+import { testIntent } from '../utils/test-component';
+import { join } from 'path';
+
+interface TallyState {
+  count: number;
+}
+
+class TallyComponent extends EventSourcedComponent<TallyState> {
+  intent = testIntent;
+  protected reducers: Record<string, EventReducer<TallyState>> = {
+    incremented: (state, event) => ({ count: state.count + (event.data as { by: number }).by }),
+    reset: () => ({ count: 0 })
+  };
+
+  constructor(eventStore: EventStore, snapshotEvery?: number) {
+    super(eventStore, { streamId: 'tally', snapshotEvery });
+  }
+
+  initialState(): TallyState {
+    return { count: 0 };
+  }
+
+  async render(data: ViewData): Promise<string> {
+    return `<p>Count: ${this.getState().count}</p>`;
+  }
+
+  async handleAction(req: Request, res: Response): Promise<void> {
+    await this.emit('incremented', { by: 1 }, 'user-1');
+    res.redirect('/');
+  }
+
+  async increment(by: number): Promise<void> {
+    await this.emit('incremented', { by });
+  }
+
+  async emitUnknown(): Promise<void> {
+    await this.emit('unknown', {});
+  }
+}
+
+describe('EventSourcedComponent', () => {
+  let store: MemoryEventStore;
+  let component: TallyComponent;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+    component = new TallyComponent(store, 3);
+  });
+
+  it('should apply emitted events to state', async () => {
+    await component.increment(2);
+    await component.increment(3);
+
+    expect(component.getState()).toEqual({ count: 5 });
+    expect(component.getVersion()).toBe(1);
+  });
+
+  it('should record every event in the stream', async () => {
+    await component.increment(1);
+    await component.increment(1);
+
+    const events = await component.getEvents();
+    expect(events.map(e => e.type)).toEqual(['incremented', 'incremented']);
+    expect(events.map(e => e.metadata.version)).toEqual([0, 1]);
+  });
+
+  it('should rebuild state from the event stream', async () => {
+    await component.increment(2);
+    await component.increment(4);
+
+    const restored = new TallyComponent(store, 3);
+    await restored.loadState();
+
+    expect(restored.getState()).toEqual({ count: 6 });
+    expect(restored.getVersion()).toBe(1);
+  });
+
+  it('should snapshot every N events', async () => {
+    for (let i = 0; i < 4; i++) {
+      await component.increment(1);
+    }
+
+    expect(await store.getSnapshot('tally')).toMatchObject({ state: { count: 3 }, version: 2 });
+  });
+
+  it('should rebuild from the snapshot plus later events', async () => {
+    for (let i = 0; i < 4; i++) {
+      await component.increment(1);
+    }
+    const readSpy = jest.spyOn(store, 'read');
+
+    const restored = new TallyComponent(store, 3);
+    await restored.loadState();
+
+    expect(readSpy).toHaveBeenCalledWith('tally', 3);
+    expect(restored.getState()).toEqual({ count: 4 });
+    expect(restored.getVersion()).toBe(3);
+  });
+
+  it('should reject events appended against a stale version', async () => {
+    const other = new TallyComponent(store, 3);
+    await component.increment(1);
+
+    await expect(other.increment(1)).rejects.toThrow(ConcurrencyError);
+    expect(other.getState()).toEqual({ count: 0 });
+
+    await other.loadState();
+    await other.increment(1);
+    expect(other.getState()).toEqual({ count: 2 });
+  });
+
+  it('should reject events without a reducer', async () => {
+    await expect(component.emitUnknown()).rejects.toThrow('No reducer registered for event type: unknown');
+    expect(store.streams.get('tally')).toBeUndefined();
+  });
+
+  it('should load state before runtime actions', async () => {
+    await component.increment(5);
+    const runtime = new Runtime(join(__dirname, '../templates'));
+    const restored = new TallyComponent(store, 3);
+    runtime.registerComponent('tally', restored);
+
+    const req = { path: '/test/increment', method: 'POST', body: {} } as Request;
+    const res = { redirect: jest.fn() } as unknown as Response;
+    await runtime.handleAction(restored, req, res);
+
+    expect(restored.getState()).toEqual({ count: 6 });
+    const [, event] = await restored.getEvents();
+    expect(event.metadata.userId).toBe('user-1');
+  });
+
+  it('should let only one of two concurrent runtime actions append', async () => {
+    const runtime = new Runtime(join(__dirname, '../templates'));
+    runtime.registerComponent('tally', component);
+    const releases: Array<() => void> = [];
+    const gates = [0, 1].map(() => new Promise<void>(resolve => { releases.push(resolve); }));
+    const done: Promise<void>[] = [];
+    let calls = 0;
+    jest.spyOn(component, 'handleAction').mockImplementation(async () => {
+      const gate = gates[calls++];
+      await gate;
+      const increment = component.increment(1);
+      done.push(increment.catch(() => undefined));
+      await increment;
+    });
+
+    // Both requests load version -1, then append one after the other
+    const req = { path: '/test/increment', method: 'POST', body: {} } as Request;
+    const actions = Promise.allSettled([
+      runtime.handleAction(component, req, {} as Response),
+      runtime.handleAction(component, req, {} as Response)
+    ]);
+    await new Promise(resolve => setImmediate(resolve));
+    releases[0]();
+    await new Promise(resolve => setImmediate(resolve));
+    await Promise.all(done);
+    releases[1]();
+    const results = await actions;
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConcurrencyError);
+    expect(store.streams.get('tally')).toHaveLength(1);
+    expect(runtime.getStateHistory().map(change => change.to)).toEqual([{ count: 1 }]);
+  });
+
+  it('should keep newer state when a slow load finishes last', async () => {
+    const read = store.read.bind(store);
+    let loaded!: () => void;
+    const hasRead = new Promise<void>(resolve => { loaded = resolve; });
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    jest.spyOn(store, 'read').mockImplementationOnce(async (...args) => {
+      const events = await read(...args);
+      loaded();
+      await released;
+      return events;
+    });
+
+    const loading = component.loadState();
+    await hasRead;
+    await component.increment(1);
+    release();
+    await loading;
+
+    expect(component.getState()).toEqual({ count: 1 });
+    expect(component.getVersion()).toBe(0);
+  });
+});
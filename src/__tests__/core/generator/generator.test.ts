@@ -107,6 +107,8 @@ describe('AppGenerator', () => {
       );
       expect(packageJson.dependencies).toHaveProperty('pg');
       expect(packageJson.devDependencies).toHaveProperty('@types/pg');
+      // The .env comment names the binary the migrate scripts run
+      expect(envExample).toContain(`takes precedence in ${packageJson.scripts.migrate}`);
 
       // Check for database configuration file
       const dbConfig = await fs.readFile(join(tempDir, 'src/database.ts'), 'utf-8');
@@ -136,6 +138,7 @@ describe('AppGenerator', () => {
       );
       expect(packageJson.dependencies).toHaveProperty('sqlite3');
       expect(packageJson.devDependencies).toHaveProperty('@types/sqlite3');
+      expect(packageJson.scripts['migrate:up']).toBe('aiframe-migrate --database sqlite:./sqlite-app.db up');
 
       // Check for database configuration file
       const dbConfig = await fs.readFile(join(tempDir, 'src/database.ts'), 'utf-8');
@@ -0,0 +1,106 @@
+import { matchesStream } from '../../../core/persistence/event-subscription';
+import { StateEvent } from '../../../core/types';
+import { MemoryEventStore } from '../../utils/memory-event-store';
+
+describe('EventSubscription', () => {
+  let store: MemoryEventStore;
+
+  function event(type: string): StateEvent {
+    return { type, data: {}, metadata: { timestamp: Date.now(), version: 0 } };
+  }
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+  });
+
+  describe('matchesStream', () => {
+    it('should match exact stream ids', () => {
+      expect(matchesStream('counter-1', 'counter-1')).toBe(true);
+      expect(matchesStream('counter-1', 'counter-10')).toBe(false);
+    });
+
+    it('should match glob patterns', () => {
+      expect(matchesStream('counter-*', 'counter-1')).toBe(true);
+      expect(matchesStream('counter-*', 'workflow-1')).toBe(false);
+      expect(matchesStream('*', 'anything.at.all')).toBe(true);
+    });
+
+    it('should match regular expressions', () => {
+      expect(matchesStream(/^order-\d+$/, 'order-42')).toBe(true);
+      expect(matchesStream(/^order-\d+$/, 'order-x')).toBe(false);
+    });
+  });
+
+  it('should deliver matching events in global order', async () => {
+    await store.append('counter-1', [event('a')]);
+    await store.append('workflow-1', [event('b')]);
+    await store.append('counter-2', [event('c')]);
+
+    const received: string[] = [];
+    const subscription = store.subscribe('counter-*', e => { received.push(e.type); });
+    await subscription.poll();
+    await subscription.stop();
+
+    expect(received).toEqual(['a', 'c']);
+    expect(subscription.position).toBe(3);
+  });
+
+  it('should start after the given position', async () => {
+    await store.append('counter-1', [event('a'), event('b'), event('c')]);
+
+    const received: string[] = [];
+    const subscription = store.subscribe('counter-1', e => { received.push(e.type); }, { fromPosition: 1 });
+    await subscription.poll();
+    await subscription.stop();
+
+    expect(received).toEqual(['b', 'c']);
+  });
+
+  it('should read in batches', async () => {
+    await store.append('counter-1', [event('a'), event('b'), event('c')]);
+    const readSpy = jest.spyOn(store, 'readAll');
+
+    const subscription = store.subscribe('counter-1', () => undefined, { batchSize: 2 });
+    await subscription.poll();
+    await subscription.stop();
+
+    expect(readSpy.mock.calls.map(call => call[0])).toEqual([0, 2]);
+  });
+
+  it('should retry from the failed event on the next poll', async () => {
+    await store.append('counter-1', [event('a'), event('b')]);
+
+    const received: string[] = [];
+    const onError = jest.fn();
+    let failures = 0;
+    const subscription = store.subscribe('counter-1', e => {
+      if (e.type === 'b' && failures++ === 0) {
+        throw new Error('Handler failed');
+      }
+      received.push(e.type);
+    }, { onError });
+
+    await subscription.poll();
+    expect(subscription.position).toBe(1);
+    expect(onError).toHaveBeenCalledWith(new Error('Handler failed'), 1);
+
+    await subscription.poll();
+    await subscription.stop();
+
+    expect(received).toEqual(['a', 'b']);
+    expect(subscription.position).toBe(2);
+  });
+
+  it('should log failures without an error callback', async () => {
+    const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await store.append('counter-1', [event('a')]);
+
+    const subscription = store.subscribe('counter-1', () => {
+      throw new Error('Handler failed');
+    });
+    await subscription.poll();
+    await subscription.stop();
+
+    expect(log).toHaveBeenCalledWith('Subscription to counter-1 failed at position 0:', new Error('Handler failed'));
+  });
+});
@@ -0,0 +1,316 @@
+import { FileAdapter } from '../../../core/persistence/file.adapter';
+import { LockTimeoutError, RevisionConflictError, TransactionError } from '../../../core/persistence/errors';
+import { PersistenceFactory } from '../../../core/persistence/factory';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import * as os from 'os';
+
+describe('FileAdapter', () => {
+  let adapter: FileAdapter<any>;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(os.tmpdir(), 'aiframe-test-'));
+    adapter = new FileAdapter({ directory: tempDir, table: 'test_table' });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Basic CRUD Operations', () => {
+    it('should save and load data', async () => {
+      const testData = { name: 'test', value: 123 };
+      await adapter.save('test-key', testData);
+
+      expect(await adapter.load('test-key')).toEqual(testData);
+    });
+
+    it('should update and delete data', async () => {
+      await adapter.save('test-key', { value: 1 });
+      await adapter.save('test-key', { value: 2 });
+      expect(await adapter.load('test-key')).toEqual({ value: 2 });
+
+      await adapter.delete('test-key');
+      expect(await adapter.load('test-key')).toBeNull();
+    });
+
+    it('should handle non-existent keys and tables', async () => {
+      expect(await adapter.load('non-existent')).toBeNull();
+      expect(await adapter.query({})).toEqual([]);
+    });
+  });
+
+  describe('File Formats', () => {
+    it('should store a table as a JSON object', async () => {
+      await adapter.save('a', { value: 1 });
+      await adapter.save('b', { value: 2 });
+
+      const contents = await fs.readFile(join(tempDir, 'test_table.json'), 'utf8');
+      expect(JSON.parse(contents)).toEqual({
+        a: { data: { value: 1 }, revision: 1 },
+        b: { data: { value: 2 }, revision: 1 }
+      });
+    });
+
+    it('should store a table as NDJSON', async () => {
+      const ndjson = new FileAdapter<any>({ directory: tempDir, table: 'lines', format: 'ndjson' });
+      await ndjson.save('a', { value: 1 });
+      await ndjson.save('b', { value: 2 });
+
+      const contents = await fs.readFile(join(tempDir, 'lines.ndjson'), 'utf8');
+      expect(contents).toBe(
+        '{"key":"a","revision":1,"data":{"value":1}}\n{"key":"b","revision":1,"data":{"value":2}}\n'
+      );
+      expect(await ndjson.load('b')).toEqual({ value: 2 });
+    });
+
+    it('should leave no temporary files or locks behind', async () => {
+      await Promise.all([1, 2, 3].map(i => adapter.save(`key${i}`, { i })));
+
+      expect(await fs.readdir(tempDir)).toEqual(['test_table.json']);
+    });
+
+    it('should reject table names that escape the directory', () => {
+      expect(() => new FileAdapter({ directory: tempDir, table: '../outside' })).toThrow('Invalid table name');
+    });
+  });
+
+  describe('Locking', () => {
+    it('should not lose writes from concurrent adapters', async () => {
+      const other = new FileAdapter<any>({ directory: tempDir, table: 'test_table' });
+
+      await Promise.all([
+        ...[1, 2, 3, 4, 5].map(i => adapter.save(`a${i}`, { i })),
+        ...[1, 2, 3, 4, 5].map(i => other.save(`b${i}`, { i }))
+      ]);
+
+      expect(await adapter.count({})).toBe(10);
+    });
+
+    it('should time out while another process holds the lock', async () => {
+      const locked = new FileAdapter({ directory: tempDir, table: 'test_table', lockTimeout: 100 });
+      await fs.writeFile(join(tempDir, 'test_table.json.lock'), '12345');
+
+      await expect(locked.save('key', { value: 1 })).rejects.toThrow(LockTimeoutError);
+      expect(await locked.load('key')).toBeNull();
+    });
+
+    it('should take over stale locks', async () => {
+      const lockPath = join(tempDir, 'test_table.json.lock');
+      await fs.writeFile(lockPath, '12345');
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, past, past);
+
+      await adapter.save('key', { value: 1 });
+      expect(await adapter.load('key')).toEqual({ value: 1 });
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should reject stale writes', async () => {
+      expect(await adapter.save('key', { value: 1 }, { ifRevision: 0 })).toBe(1);
+      expect(await adapter.save('key', { value: 2 }, { ifRevision: 1 })).toBe(2);
+
+      await expect(adapter.save('key', { value: 3 }, { ifRevision: 1 })).rejects.toThrow(RevisionConflictError);
+      expect(await adapter.loadWithRevision('key')).toEqual({ data: { value: 2 }, revision: 2 });
+    });
+
+    it('should check revisions inside transactions', async () => {
+      await adapter.save('key', { value: 1 });
+
+      await expect(adapter.withTransaction(async (tx) => {
+        await tx.save('other', { value: 1 });
+        await tx.save('key', { value: 2 }, { ifRevision: 0 });
+      })).rejects.toThrow('Record key is at revision 1, expected 0');
+      expect(await adapter.load('other')).toBeNull();
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    it('should save and load many records', async () => {
+      await adapter.save('b', { value: 0 });
+
+      expect(await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }]])).toEqual([1, 2]);
+      const loaded = await adapter.loadMany(['a', 'b', 'missing']);
+      expect(Array.from(loaded)).toEqual(expect.arrayContaining([['a', { value: 1 }], ['b', { value: 2 }]]));
+      expect(loaded.size).toBe(2);
+    });
+
+    it('should reject duplicate keys without saving anything', async () => {
+      await expect(adapter.saveMany([['a', { value: 1 }], ['a', { value: 2 }]]))
+        .rejects.toThrow('Duplicate key in bulk write: a');
+      expect(await adapter.load('a')).toBeNull();
+    });
+
+    it('should delete many records', async () => {
+      await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }], ['c', { value: 3 }]]);
+
+      expect(await adapter.deleteMany(['a', 'c', 'missing'])).toBe(2);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should scan matching records', async () => {
+      await adapter.saveMany(Array.from({ length: 7 }, (_, i): [string, any] => [`key${i}`, { i, even: i % 2 === 0 }]));
+
+      const scanned: Array<[string, any]> = [];
+      for await (const entry of adapter.scan({ even: true }, { batchSize: 2 })) {
+        scanned.push(entry);
+      }
+      expect(scanned.map(([key]) => key).sort()).toEqual(['key0', 'key2', 'key4', 'key6']);
+      expect(scanned.every(([, record]) => record.even)).toBe(true);
+      await expect(adapter.scan({}, { batchSize: 0 }).next()).rejects.toThrow('batchSize must be a positive integer');
+    });
+
+    it('should write the table once per bulk save', async () => {
+      const rename = jest.spyOn(fs, 'rename');
+
+      await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }]]);
+      expect(rename).toHaveBeenCalledTimes(1);
+      rename.mockRestore();
+    });
+  });
+
+  describe('Expiry', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hide records once their TTL passes', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('permanent', { value: 2 });
+
+      now += 999;
+      expect(await adapter.load('key')).toEqual({ value: 1 });
+      now += 1;
+      expect(await adapter.load('key')).toBeNull();
+      expect(await adapter.query({})).toEqual([{ value: 2 }]);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should treat expired records as missing when saving', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('key', { value: 2 }, { ttlMs: 1000 });
+      now += 1000;
+
+      await expect(adapter.save('key', { value: 3 }, { ifRevision: 2 })).rejects.toThrow('Record key does not exist');
+      expect(await adapter.save('key', { value: 3 }, { ifRevision: 0 })).toBe(1);
+      now += 5000;
+      expect(await adapter.load('key')).toEqual({ value: 3 });
+    });
+
+    it('should delete expired records on sweep', async () => {
+      await adapter.save('a', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('b', { value: 2 }, { ttlMs: 2000 });
+      await adapter.save('c', { value: 3 });
+      now += 1500;
+
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.sweep()).toBe(0);
+      now += 500;
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should reject invalid TTLs', async () => {
+      await expect(adapter.save('key', {}, { ttlMs: 0 })).rejects.toThrow('ttlMs must be a positive number');
+    });
+
+    it('should store the expiry time only for expiring records', async () => {
+      await adapter.save('a', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('b', { value: 2 });
+
+      const contents = await fs.readFile(join(tempDir, 'test_table.json'), 'utf8');
+      expect(JSON.parse(contents)).toEqual({
+        a: { data: { value: 1 }, revision: 1, expiresAt: 1001000 },
+        b: { data: { value: 2 }, revision: 1 }
+      });
+    });
+  });
+
+  describe('Transaction Support', () => {
+    it('should write the table once on success', async () => {
+      await adapter.withTransaction(async (tx) => {
+        await tx.save('a', { value: 1 });
+        await tx.save('b', { value: 2 });
+        expect(await tx.query({ value: { $gt: 1 } })).toEqual([{ value: 2 }]);
+        expect(await adapter.load('a')).toBeNull();
+      });
+
+      expect(await adapter.count({})).toBe(2);
+    });
+
+    it('should leave the file untouched on failure', async () => {
+      await adapter.save('a', { value: 1 });
+
+      await expect(adapter.withTransaction(async (tx) => {
+        await tx.delete('a');
+        throw new Error('Test error');
+      })).rejects.toThrow('Test error');
+
+      expect(await adapter.load('a')).toEqual({ value: 1 });
+      expect(await fs.readdir(tempDir)).toEqual(['test_table.json']);
+    });
+
+    it('should reject writes that bypass the transaction', async () => {
+      await adapter.withTransaction(async (tx) => {
+        await tx.save('a', { value: 1 });
+        await expect(adapter.save('b', { value: 2 })).rejects.toThrow(TransactionError);
+        await expect(adapter.delete('a')).rejects.toThrow(TransactionError);
+        await expect(adapter.withTransaction(async () => undefined)).rejects.toThrow(TransactionError);
+      });
+
+      expect(await adapter.load('a')).toEqual({ value: 1 });
+      expect(await adapter.load('b')).toBeNull();
+    });
+
+    it('should refuse other adapters', async () => {
+      const other = new FileAdapter({ directory: tempDir, table: 'other' });
+
+      await expect(adapter.withTransaction(async (tx) => {
+        tx.use(other);
+      })).rejects.toThrow(TransactionError);
+    });
+  });
+
+  describe('Query Operations', () => {
+    beforeEach(async () => {
+      await adapter.save('key1', { type: 'user', name: 'Alice', age: 30 });
+      await adapter.save('key2', { type: 'user', name: 'Bob', age: 25 });
+      await adapter.save('key3', { type: 'admin', name: 'Charlie', age: 35 });
+    });
+
+    it('should support the shared filter format', async () => {
+      const results = await adapter.query({ age: { $gte: 30 } }, { sort: { age: 'desc' } });
+      expect(results.map(r => r.name)).toEqual(['Charlie', 'Alice']);
+      expect(await adapter.count({ type: 'user' })).toBe(2);
+    });
+
+    it('should return nothing for invalid filters', async () => {
+      expect(await adapter.query(null)).toEqual([]);
+    });
+  });
+
+  it('should be created by the PersistenceFactory', async () => {
+    const created = await PersistenceFactory.createAdapter('file-test', {
+      type: 'file',
+      database: 'test',
+      directory: tempDir,
+      format: 'ndjson'
+    });
+    await created.save('key', { value: 1 });
+    await PersistenceFactory.removeAdapter('file-test');
+
+    expect(await fs.readdir(tempDir)).toEqual(['file-test.ndjson']);
+    await expect(PersistenceFactory.createAdapter('file-missing', { type: 'file', database: 'test' }))
+      .rejects.toThrow('Missing required file configuration: directory');
+  });
+});
@@ -0,0 +1,22 @@
+import { IdentifierError } from '../../../core/persistence/errors';
+import { qualifiedName, quoteIdentifier, validateIdentifier } from '../../../core/persistence/identifiers';
+
+describe('identifiers', () => {
+  it('should accept plain SQL identifiers', () => {
+    expect(validateIdentifier('component_state')).toBe('component_state');
+    expect(validateIdentifier('_Events2')).toBe('_Events2');
+  });
+
+  it('should reject anything else', () => {
+    for (const name of ['', '2fast', 'a-b', 'a.b', 'a b', 'users; DROP TABLE users', 'a"b', "a' OR '1'='1", 42]) {
+      expect(() => validateIdentifier(name, 'table')).toThrow(IdentifierError);
+    }
+    expect(() => validateIdentifier('a-b', 'table')).toThrow('Invalid table name: "a-b"');
+  });
+
+  it('should quote names folded to lower case', () => {
+    expect(quoteIdentifier('Orders')).toBe('"orders"');
+    expect(qualifiedName('public', 'Orders')).toBe('"public"."orders"');
+    expect(() => qualifiedName('public; --', 'orders')).toThrow('Invalid schema name');
+  });
+});
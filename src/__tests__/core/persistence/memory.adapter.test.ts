@@ -0,0 +1,270 @@
+import { MemoryAdapter } from '../../../core/persistence/memory.adapter';
+import { PersistenceFactory } from '../../../core/persistence/factory';
+import { RevisionConflictError, TransactionError } from '../../../core/persistence/errors';
+import { PersistenceAdapter } from '../../../core/types';
+
+describe('MemoryAdapter', () => {
+  let adapter: MemoryAdapter<any>;
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter({ table: 'test_table' });
+  });
+
+  describe('Basic CRUD Operations', () => {
+    it('should save and load data', async () => {
+      const testData = { name: 'test', value: 123 };
+      await adapter.save('test-key', testData);
+
+      const loaded = await adapter.load('test-key');
+      expect(loaded).toEqual(testData);
+    });
+
+    it('should store copies of saved data', async () => {
+      const testData = { name: 'test', nested: { value: 1 } };
+      await adapter.save('test-key', testData);
+      testData.nested.value = 2;
+
+      const loaded = await adapter.load('test-key');
+      expect(loaded.nested.value).toBe(1);
+      loaded.nested.value = 3;
+      expect((await adapter.load('test-key')).nested.value).toBe(1);
+    });
+
+    it('should delete data', async () => {
+      await adapter.save('test-key', { name: 'test' });
+      await adapter.delete('test-key');
+
+      expect(await adapter.load('test-key')).toBeNull();
+    });
+
+    it('should handle non-existent keys', async () => {
+      expect(await adapter.load('non-existent')).toBeNull();
+    });
+  });
+
+  describe('Query Operations', () => {
+    beforeEach(async () => {
+      await adapter.save('key1', { type: 'user', name: 'Alice', age: 30, tags: ['staff'] });
+      await adapter.save('key2', { type: 'user', name: 'Bob', age: 25, owner: { id: 7 } });
+      await adapter.save('key3', { type: 'admin', name: 'Charlie', age: '35' });
+    });
+
+    it('should query by simple filter', async () => {
+      const results = await adapter.query({ type: 'user' });
+      expect(results.map(r => r.name)).toEqual(['Alice', 'Bob']);
+    });
+
+    it('should support operators with type-strict comparison', async () => {
+      expect((await adapter.query({ age: { $gt: 20 } })).map(r => r.name)).toEqual(['Alice', 'Bob']);
+      expect((await adapter.query({ age: { $gt: '30' } })).map(r => r.name)).toEqual(['Charlie']);
+      expect((await adapter.query({ type: { $ne: 'user' } })).map(r => r.name)).toEqual(['Charlie']);
+      expect((await adapter.query({ name: { $in: ['Bob', 'Eve'] } })).map(r => r.name)).toEqual(['Bob']);
+    });
+
+    it('should match array elements and substrings with $contains', async () => {
+      expect((await adapter.query({ tags: { $contains: 'staff' } })).map(r => r.name)).toEqual(['Alice']);
+      expect((await adapter.query({ name: { $contains: 'li' } })).map(r => r.name)).toEqual(['Alice', 'Charlie']);
+    });
+
+    it('should treat missing fields as null', async () => {
+      expect((await adapter.query({ owner: null })).map(r => r.name)).toEqual(['Alice', 'Charlie']);
+      expect((await adapter.query({ 'owner.id': 7 })).map(r => r.name)).toEqual(['Bob']);
+    });
+
+    it('should sort nulls, then numbers, then strings', async () => {
+      await adapter.save('key4', { type: 'guest', name: 'Dana' });
+
+      const results = await adapter.query({}, { sort: { age: 'asc' } });
+      expect(results.map(r => r.name)).toEqual(['Dana', 'Bob', 'Alice', 'Charlie']);
+    });
+
+    it('should page results', async () => {
+      const results = await adapter.query({}, { sort: { name: 'desc' }, limit: 1, offset: 1 });
+      expect(results.map(r => r.name)).toEqual(['Bob']);
+    });
+
+    it('should count matching records', async () => {
+      expect(await adapter.count({ type: 'user' })).toBe(2);
+      expect(await adapter.count({})).toBe(3);
+    });
+
+    it('should return nothing for invalid filters', async () => {
+      expect(await adapter.query(null)).toEqual([]);
+      expect(await adapter.count('invalid')).toBe(0);
+      await expect(adapter.query({ age: { $regex: '3' } })).rejects.toThrow('Unknown filter operator');
+    });
+
+    it('should treat filter keys as field names only', async () => {
+      expect(await adapter.query({ "a' OR '1'='1": 'x' })).toEqual([]);
+      expect(await adapter.count({ "a' OR '1'='1": null })).toBe(3);
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should start at 1 and increase on every save', async () => {
+      expect(await adapter.save('key', { value: 1 })).toBe(1);
+      expect(await adapter.save('key', { value: 2 })).toBe(2);
+      expect(await adapter.loadWithRevision('key')).toEqual({ data: { value: 2 }, revision: 2 });
+      expect(await adapter.loadWithRevision('missing')).toBeNull();
+    });
+
+    it('should reject stale writes', async () => {
+      await adapter.save('key', { value: 1 }, { ifRevision: 0 });
+      await adapter.save('key', { value: 2 }, { ifRevision: 1 });
+
+      const error = await adapter.save('key', { value: 3 }, { ifRevision: 1 }).catch(e => e);
+      expect(error).toBeInstanceOf(RevisionConflictError);
+      expect(error).toMatchObject({ key: 'key', expectedRevision: 1, actualRevision: 2 });
+      await expect(adapter.save('new', {}, { ifRevision: 1 })).rejects.toThrow('Record new does not exist');
+    });
+
+    it('should reject transactions whose records changed before commit', async () => {
+      await adapter.save('key', { value: 1 });
+
+      await expect(adapter.withTransaction(async (tx) => {
+        await tx.save('key', { value: 2 }, { ifRevision: 1 });
+        await adapter.save('key', { value: 3 });
+      })).rejects.toThrow(RevisionConflictError);
+      expect(await adapter.loadWithRevision('key')).toEqual({ data: { value: 3 }, revision: 2 });
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    it('should save and load many records', async () => {
+      await adapter.save('b', { value: 0 });
+
+      expect(await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }]])).toEqual([1, 2]);
+      const loaded = await adapter.loadMany(['a', 'b', 'missing']);
+      expect(Array.from(loaded)).toEqual(expect.arrayContaining([['a', { value: 1 }], ['b', { value: 2 }]]));
+      expect(loaded.size).toBe(2);
+    });
+
+    it('should reject duplicate keys without saving anything', async () => {
+      await expect(adapter.saveMany([['a', { value: 1 }], ['a', { value: 2 }]]))
+        .rejects.toThrow('Duplicate key in bulk write: a');
+      expect(await adapter.load('a')).toBeNull();
+    });
+
+    it('should delete many records', async () => {
+      await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }], ['c', { value: 3 }]]);
+
+      expect(await adapter.deleteMany(['a', 'c', 'missing'])).toBe(2);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should scan matching records', async () => {
+      await adapter.saveMany(Array.from({ length: 7 }, (_, i): [string, any] => [`key${i}`, { i, even: i % 2 === 0 }]));
+
+      const scanned: Array<[string, any]> = [];
+      for await (const entry of adapter.scan({ even: true }, { batchSize: 2 })) {
+        scanned.push(entry);
+      }
+      expect(scanned.map(([key]) => key).sort()).toEqual(['key0', 'key2', 'key4', 'key6']);
+      expect(scanned.every(([, record]) => record.even)).toBe(true);
+      await expect(adapter.scan({}, { batchSize: 0 }).next()).rejects.toThrow('batchSize must be a positive integer');
+    });
+  });
+
+  describe('Expiry', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hide records once their TTL passes', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('permanent', { value: 2 });
+
+      now += 999;
+      expect(await adapter.load('key')).toEqual({ value: 1 });
+      now += 1;
+      expect(await adapter.load('key')).toBeNull();
+      expect(await adapter.query({})).toEqual([{ value: 2 }]);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should treat expired records as missing when saving', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('key', { value: 2 }, { ttlMs: 1000 });
+      now += 1000;
+
+      await expect(adapter.save('key', { value: 3 }, { ifRevision: 2 })).rejects.toThrow('Record key does not exist');
+      expect(await adapter.save('key', { value: 3 }, { ifRevision: 0 })).toBe(1);
+      now += 5000;
+      expect(await adapter.load('key')).toEqual({ value: 3 });
+    });
+
+    it('should delete expired records on sweep', async () => {
+      await adapter.save('a', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('b', { value: 2 }, { ttlMs: 2000 });
+      await adapter.save('c', { value: 3 });
+      now += 1500;
+
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.sweep()).toBe(0);
+      now += 500;
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should reject invalid TTLs', async () => {
+      await expect(adapter.save('key', {}, { ttlMs: 0 })).rejects.toThrow('ttlMs must be a positive number');
+    });
+  });
+
+  describe('Transaction Support', () => {
+    it('should apply staged writes on success', async () => {
+      await adapter.save('kept', { value: 0 });
+
+      await adapter.withTransaction(async (tx) => {
+        await tx.save('tx-key', { value: 1 });
+        await tx.delete('kept');
+        expect(await tx.load('tx-key')).toEqual({ value: 1 });
+        expect(await tx.count({})).toBe(1);
+        expect(await adapter.load('tx-key')).toBeNull();
+      });
+
+      expect(await adapter.load('tx-key')).toEqual({ value: 1 });
+      expect(await adapter.load('kept')).toBeNull();
+    });
+
+    it('should discard writes across adapters on failure', async () => {
+      const other = new MemoryAdapter<any>({ table: 'other' });
+
+      await expect(adapter.withTransaction(async (tx) => {
+        await tx.save('key', { value: 1 });
+        await tx.use(other).save('key', { value: 2 });
+        throw new Error('Test error');
+      })).rejects.toThrow('Test error');
+      expect(await other.load('key')).toBeNull();
+
+      await adapter.withTransaction(async (tx) => {
+        await tx.use(other).save('key', { value: 2 });
+      });
+      expect(await other.load('key')).toEqual({ value: 2 });
+    });
+
+    it('should refuse adapters of other types', async () => {
+      const other = { withTransaction: jest.fn() } as unknown as PersistenceAdapter;
+
+      await expect(adapter.withTransaction(async (tx) => {
+        tx.use(other);
+      })).rejects.toThrow(TransactionError);
+    });
+  });
+
+  it('should be created by the PersistenceFactory', async () => {
+    const created = await PersistenceFactory.createAdapter('memory-test', { type: 'memory', database: 'test' });
+    expect(created).toBeInstanceOf(MemoryAdapter);
+
+    await created.save('key', { value: 1 });
+    await PersistenceFactory.removeAdapter('memory-test');
+    expect(await created.load('key')).toBeNull();
+  });
+});
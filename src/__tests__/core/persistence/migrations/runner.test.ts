@@ -1,6 +1,7 @@
 import { MigrationRunner } from '../../../../core/persistence/migrations/runner';
-import { Migration } from '../../../../core/persistence/migrations/types';
+import { SQLiteMigrationDriver } from '../../../../core/persistence/migrations/drivers';
 import { Pool } from 'pg';
+import { Database } from 'sqlite3';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -192,4 +193,201 @@ describe('MigrationRunner', () => {
       expect(applied.find(m => m.name === '004-fail')).toBeUndefined();
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe('MigrationRunner with SQLite', () => {
+  let runner: MigrationRunner;
+  let tempDir: string;
+  let migrationsDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'aiframe-sqlite-migrations-'));
+    migrationsDir = join(tempDir, 'migrations');
+    dbPath = join(tempDir, 'app.db');
+    await fs.mkdir(migrationsDir);
+
+    await writeMigration('001-create-users', 1, `
+      await client.query('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)');
+      await client.query('INSERT INTO users (id, name) VALUES ($1, $2)', [1, 'Alice']);
+    `, `
+      await client.query('DROP TABLE users');
+    `);
+    await writeMigration('002-add-email', 2, `
+      await client.query('ALTER TABLE users ADD COLUMN email TEXT');
+    `, `
+      await client.query('ALTER TABLE users DROP COLUMN email');
+    `);
+
+    runner = new MigrationRunner(`sqlite:${dbPath}`, { migrationsDir });
+  });
+
+  afterEach(async () => {
+    await runner.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeMigration(name: string, version: number, up: string, down: string): Promise<void> {
+    await fs.writeFile(join(migrationsDir, `${name}.js`), `
+      module.exports = {
+        id: 'sqlite-${version}',
+        name: '${name}',
+        timestamp: ${version},
+        async up(client) { ${up} },
+        async down(client) { ${down} }
+      };
+    `);
+  }
+
+  async function columns(): Promise<string[]> {
+    const driver = new SQLiteMigrationDriver(new Database(dbPath));
+    try {
+      return (await driver.query<{ name: string }>('PRAGMA table_info(users)')).rows.map(row => row.name);
+    } finally {
+      await driver.close();
+    }
+  }
+
+  it('should apply and record migrations', async () => {
+    const results = await runner.up();
+    expect(results.map(r => r.status)).toEqual(['success', 'success']);
+    expect(await columns()).toEqual(['id', 'name', 'email']);
+
+    const applied = await runner.getAppliedMigrations();
+    expect(applied.map(m => [m.name, m.timestamp, m.batch])).toEqual([
+      ['001-create-users', 1, 1],
+      ['002-add-email', 2, 1]
+    ]);
+    expect(applied[0].appliedAt).toBeInstanceOf(Date);
+    expect(Number.isNaN(applied[0].appliedAt.getTime())).toBe(false);
+  });
+
+  it('should roll back and report status', async () => {
+    await runner.up();
+    expect((await runner.down(1))[0].name).toBe('002-add-email');
+    expect(await columns()).toEqual(['id', 'name']);
+
+    const status = await runner.status();
+    expect(status.applied.map(m => m.name)).toEqual(['001-create-users']);
+    expect(status.pending.map(m => m.name)).toEqual(['002-add-email']);
+  });
+
+  it('should load plain SQL migrations', async () => {
+    await fs.writeFile(join(migrationsDir, '3-add-roles.sql'), [
+      '-- up',
+      'CREATE TABLE roles (id INTEGER PRIMARY KEY, name TEXT);',
+      "INSERT INTO roles (name) VALUES ('admin');",
+      '-- down',
+      'DROP TABLE roles;'
+    ].join('\n'));
+
+    const results = await runner.up();
+    expect(results.map(r => [r.name, r.status])).toEqual([
+      ['001-create-users', 'success'],
+      ['002-add-email', 'success'],
+      ['add-roles', 'success']
+    ]);
+    expect((await runner.getAppliedMigrations())[2]).toMatchObject({ id: '3-add-roles', timestamp: 3 });
+
+    expect((await runner.down(1))[0].status).toBe('success');
+    expect((await runner.status()).pending.map(m => m.id)).toEqual(['3-add-roles']);
+  });
+
+  it('should flag applied migrations that changed or disappeared', async () => {
+    const sqlPath = join(migrationsDir, '3-add-roles.sql');
+    await fs.writeFile(sqlPath, '-- up\nCREATE TABLE roles (id INTEGER);\n-- down\nDROP TABLE roles;\n');
+    await runner.up();
+
+    const clean = await runner.status();
+    expect(clean.applied.every(record => /^[0-9a-f]{64}$/.test(record.checksum as string))).toBe(true);
+    expect(clean.changed).toEqual([]);
+    expect(clean.missing).toEqual([]);
+
+    await fs.writeFile(sqlPath, '-- up\nCREATE TABLE roles (id INTEGER, name TEXT);\n-- down\nDROP TABLE roles;\n');
+    await fs.rm(join(migrationsDir, '002-add-email.js'));
+
+    const drifted = await runner.status();
+    expect(drifted.changed.map(record => record.id)).toEqual(['3-add-roles']);
+    expect(drifted.missing.map(record => record.id)).toEqual(['sqlite-2']);
+  });
+
+  it('should ignore line ending differences', async () => {
+    const sqlPath = join(migrationsDir, '3-add-roles.sql');
+    await fs.writeFile(sqlPath, '-- up\nCREATE TABLE roles (id INTEGER);\n');
+    await runner.up();
+
+    await fs.writeFile(sqlPath, '-- up\r\nCREATE TABLE roles (id INTEGER);\r\n');
+    expect((await runner.status()).changed).toEqual([]);
+  });
+
+  it('should add the checksum column to existing migration tables', async () => {
+    const legacy = new SQLiteMigrationDriver(new Database(dbPath));
+    try {
+      await legacy.exec(`
+        CREATE TABLE migrations (id TEXT PRIMARY KEY, name TEXT NOT NULL, timestamp BIGINT NOT NULL,
+          applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, batch INTEGER NOT NULL);
+        INSERT INTO migrations (id, name, timestamp, batch) VALUES ('sqlite-1', '001-create-users', 1, 1);
+      `);
+    } finally {
+      await legacy.close();
+    }
+
+    const status = await runner.status();
+    expect(status.applied).toEqual([expect.objectContaining({ id: 'sqlite-1', checksum: null })]);
+    expect(status.changed).toEqual([]);
+    expect(status.pending.map(m => m.id)).toEqual(['sqlite-2']);
+  });
+
+  it('should run every statement of a script passed to exec', async () => {
+    await writeMigration('003-add-roles', 3, `
+      await client.exec('CREATE TABLE roles (id INTEGER PRIMARY KEY); CREATE TABLE grants (role_id INTEGER);');
+    `, `
+      await client.exec('DROP TABLE grants; DROP TABLE roles;');
+    `);
+    expect((await runner.up()).map(r => r.status)).toEqual(['success', 'success', 'success']);
+
+    const tables = new SQLiteMigrationDriver(new Database(dbPath));
+    try {
+      const names = (await tables.query(`SELECT name FROM sqlite_master WHERE name IN ('roles', 'grants')`)).rows;
+      expect(names.map(row => row.name).sort()).toEqual(['grants', 'roles']);
+    } finally {
+      await tables.close();
+    }
+  });
+
+  it('should refuse several statements in one query', async () => {
+    await writeMigration('003-add-roles', 3, `
+      await client.query('CREATE TABLE roles (id INTEGER PRIMARY KEY); CREATE TABLE grants (role_id INTEGER)');
+    `, '');
+
+    const results = await runner.up();
+    expect(results[2].error?.message).toBe('query runs a single statement; use exec for scripts');
+
+    const driver = new SQLiteMigrationDriver(new Database(dbPath));
+    try {
+      // Semicolons inside literals and comments, and a trailing one, are fine
+      await expect(driver.query("SELECT ';' AS a; -- done; really")).resolves.toEqual({ rows: [{ a: ';' }] });
+      expect((await driver.query(`SELECT name FROM sqlite_master WHERE name = 'roles'`)).rows).toEqual([]);
+    } finally {
+      await driver.close();
+    }
+  });
+
+  it('should undo the changes of a failing migration', async () => {
+    await writeMigration('003-fail', 3, `
+      await client.query('CREATE TABLE roles (id INTEGER PRIMARY KEY)');
+      throw new Error('Test error');
+    `, '');
+
+    const results = await runner.up();
+    expect(results.map(r => r.status)).toEqual(['success', 'success', 'error']);
+    expect(results[2].error?.message).toBe('Test error');
+    expect((await runner.status()).pending.map(m => m.name)).toEqual(['003-fail']);
+
+    const tables = new SQLiteMigrationDriver(new Database(dbPath));
+    try {
+      expect((await tables.query(`SELECT name FROM sqlite_master WHERE name = 'roles'`)).rows).toEqual([]);
+    } finally {
+      await tables.close();
+    }
+  });
+});
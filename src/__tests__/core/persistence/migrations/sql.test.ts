@@ -0,0 +1,55 @@
+import { parseSqlMigration } from '../../../../core/persistence/migrations/sql';
+
+describe('parseSqlMigration', () => {
+  const content = `-- Migration: create users
+
+-- up
+CREATE TABLE users (id INTEGER PRIMARY KEY);
+CREATE INDEX users_id ON users (id);
+
+-- down
+DROP TABLE users;
+`;
+
+  function recorder() {
+    const scripts: string[] = [];
+    const client = {
+      query: async () => ({ rows: [] }),
+      exec: async (script: string) => { scripts.push(script); }
+    };
+    return { scripts, client };
+  }
+
+  it('should take the id, name and timestamp from the filename', () => {
+    const migration = parseSqlMigration('1700000000000-create-users.sql', content);
+    expect(migration).toMatchObject({
+      id: '1700000000000-create-users',
+      name: 'create-users',
+      timestamp: 1700000000000
+    });
+  });
+
+  it('should run each section as one script', async () => {
+    const migration = parseSqlMigration('1-create-users.sql', content);
+    const { scripts, client } = recorder();
+
+    await migration.up(client);
+    await migration.down(client);
+    expect(scripts).toEqual([
+      'CREATE TABLE users (id INTEGER PRIMARY KEY);\nCREATE INDEX users_id ON users (id);',
+      'DROP TABLE users;'
+    ]);
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => parseSqlMigration('create-users.sql', content)).toThrow('<timestamp>-<name>.sql');
+    expect(() => parseSqlMigration('1-a.sql', '-- down\nDROP TABLE a;')).toThrow('has no -- up section');
+    expect(() => parseSqlMigration('1-a.sql', 'DROP TABLE a;\n-- up\nSELECT 1;')).toThrow('before its -- up section');
+    expect(() => parseSqlMigration('1-a.sql', '-- up\nSELECT 1;\n-- up\nSELECT 2;')).toThrow('more than one -- up section');
+  });
+
+  it('should refuse to roll back without a down section', async () => {
+    const migration = parseSqlMigration('1-a.sql', '-- up\nSELECT 1;');
+    await expect(migration.down(recorder().client)).rejects.toThrow('1-a.sql has no -- down section');
+  });
+});
@@ -1,20 +1,26 @@
 import { PostgresAdapter, PostgresAdapterConfig } from '../../../core/persistence/postgres.adapter';
+import { IdentifierError, RevisionConflictError } from '../../../core/persistence/errors';
 
 describe('PostgresAdapter', () => {
   let adapter: PostgresAdapter<any>;
 
+  function testConfig(): PostgresAdapterConfig {
+    return {
+      host: process.env.POSTGRES_HOST,
+      port: parseInt(process.env.POSTGRES_PORT || '5432'),
+      database: process.env.POSTGRES_DB,
+      user: process.env.POSTGRES_USER,
+      password: process.env.POSTGRES_PASSWORD,
+      table: 'test_table'
+    };
+  }
+
   beforeEach(async () => {
     try {
-      const config: PostgresAdapterConfig = {
-        host: process.env.POSTGRES_HOST,
-        port: parseInt(process.env.POSTGRES_PORT || '5432'),
-        database: process.env.POSTGRES_DB,
-        user: process.env.POSTGRES_USER,
-        password: process.env.POSTGRES_PASSWORD,
-        table: 'test_table'
-      };
-      adapter = new PostgresAdapter(config);
+      adapter = new PostgresAdapter(testConfig());
       await adapter.initialize();
+      // Start every test from an empty table, whatever earlier tests or runs left
+      await adapter['pool']!.query(`TRUNCATE ${adapter['target']}`);
     } catch (error) {
       console.error('Failed to initialize adapter:', error);
       throw error;
@@ -33,23 +39,16 @@ describe('PostgresAdapter', () => {
   });
 
   afterAll(async () => {
-    if (adapter) {
-      try {
-        // Drop the test table using raw pool query
-        const pool = adapter['pool'];
-        if (pool) {
-          await pool.query(`DROP TABLE IF EXISTS ${adapter['schema']}.${adapter['table']}`);
-        }
-        
-        // Then disconnect and cleanup
-        await adapter.disconnect();
-        
-        // Add a small delay to ensure all resources are cleaned up
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error('Failed to cleanup after tests:', error);
-        throw error;
-      }
+    // The adapters from the tests are disconnected by now, so drop the table through a fresh one
+    const cleanup = new PostgresAdapter(testConfig());
+    try {
+      await cleanup.initialize();
+      await cleanup['pool']!.query(`DROP TABLE IF EXISTS ${cleanup['target']}`);
+    } catch (error) {
+      console.error('Failed to cleanup after tests:', error);
+      throw error;
+    } finally {
+      await cleanup.disconnect();
     }
   });
 
@@ -113,13 +112,113 @@ describe('PostgresAdapter', () => {
       const results = await adapter.query({ type: 'non-existent' });
       expect(results).toHaveLength(0);
     });
+
+    it('should support operators, sorting and paging', async () => {
+      const results = await adapter.query(
+        { age: { $gte: 25 }, name: { $in: ['Alice', 'Bob', 'Charlie'] } },
+        { sort: { age: 'desc' }, limit: 2, offset: 1 }
+      );
+      expect(results.map(r => r.name)).toEqual(['Alice', 'Bob']);
+    });
+
+    it('should count matching records', async () => {
+      expect(await adapter.count({ type: 'user' })).toBe(2);
+      expect(await adapter.count({ age: { $gt: 40 } })).toBe(0);
+    });
+
+    it('should treat filter keys as data rather than SQL', async () => {
+      expect(await adapter.query({ "a' OR '1'='1": 'x' })).toEqual([]);
+      expect(await adapter.count({ "type}' OR true --": { $ne: null } })).toBe(0);
+    });
+
+    it('should reject unsafe identifiers', () => {
+      expect(() => new PostgresAdapter({ ...adapter['config'], schema: 'public; DROP SCHEMA public' }))
+        .toThrow(IdentifierError);
+      expect(() => new PostgresAdapter({ ...adapter['config'], table: 'items"' })).toThrow('Invalid table name');
+    });
+  });
+
+  describe('Indexes', () => {
+    it('should create expression indexes for declared paths', async () => {
+      const indexed = new PostgresAdapter<any>({ ...adapter['config'], indexes: ['status', 'owner.id'] });
+      try {
+        await indexed.save('indexed-key', { status: 'open', owner: { id: 1 } });
+        expect(await indexed.query({ 'owner.id': 1 })).toHaveLength(1);
+
+        const result = await indexed['pool']!.query(
+          `SELECT indexname FROM pg_indexes WHERE tablename = 'test_table'`
+        );
+        expect(result.rows.map(row => row.indexname)).toEqual(
+          expect.arrayContaining(['test_table_status_idx', 'test_table_owner__id_idx'])
+        );
+
+        // Range filters on numbers use the index too
+        expect(await indexed.query({ 'owner.id': { $gt: 0 } })).toHaveLength(1);
+        const { where, params } = indexed['queryBuilder']().build({ 'owner.id': { $gt: 0 } });
+        const client = await indexed['pool']!.connect();
+        try {
+          await client.query('BEGIN');
+          await client.query('SET LOCAL enable_seqscan = off');
+          const plan = await client.query(`EXPLAIN SELECT * FROM ${indexed['target']} WHERE ${where}`, params);
+          expect(plan.rows.map(row => row['QUERY PLAN']).join('\n')).toContain('test_table_owner__id_idx');
+        } finally {
+          await client.query('ROLLBACK');
+          client.release();
+        }
+      } finally {
+        await indexed.delete('indexed-key');
+        await indexed.disconnect();
+      }
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should reject stale writes', async () => {
+      await adapter.delete('rev-key');
+      expect(await adapter.save('rev-key', { value: 1 }, { ifRevision: 0 })).toBe(1);
+      expect(await adapter.save('rev-key', { value: 2 }, { ifRevision: 1 })).toBe(2);
+
+      await expect(adapter.save('rev-key', { value: 3 }, { ifRevision: 1 })).rejects.toThrow(RevisionConflictError);
+      expect(await adapter.loadWithRevision('rev-key')).toEqual({ data: { value: 2 }, revision: 2 });
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    it('should save, load, scan and delete many records', async () => {
+      const a = { batch: 'bulk', value: 1 };
+      const b = { batch: 'bulk', value: 2 };
+      expect(await adapter.saveMany([['bulk-a', a], ['bulk-b', b]])).toEqual([1, 1]);
+      expect(await adapter.loadMany(['bulk-a', 'bulk-b', 'missing'])).toEqual(
+        new Map([['bulk-a', a], ['bulk-b', b]])
+      );
+
+      const keys: string[] = [];
+      for await (const [key] of adapter.scan({ batch: 'bulk', value: { $gte: 1 } }, { batchSize: 1 })) {
+        keys.push(key);
+      }
+      expect(keys).toEqual(['bulk-a', 'bulk-b']);
+      expect(await adapter.deleteMany(['bulk-a', 'bulk-b'])).toBe(2);
+    });
+  });
+
+  describe('Expiry', () => {
+    it('should hide and sweep expired records', async () => {
+      await adapter.save('ttl-key', { value: 'expiring' }, { ttlMs: 50 });
+      expect(await adapter.load('ttl-key')).toEqual({ value: 'expiring' });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(await adapter.load('ttl-key')).toBeNull();
+      expect(await adapter.count({ value: 'expiring' })).toBe(0);
+      expect(await adapter.save('ttl-key', { value: 2 }, { ifRevision: 0 })).toBe(1);
+      expect(await adapter.sweep()).toBe(0);
+    });
   });
 
   describe('Transaction Support', () => {
     it('should handle successful transactions', async () => {
-      await adapter.withTransaction(async (client) => {
-        await adapter.save('tx-key1', { value: 1 }, client);
-        await adapter.save('tx-key2', { value: 2 }, client);
+      await adapter.withTransaction(async (tx) => {
+        await tx.save('tx-key1', { value: 1 });
+        await tx.save('tx-key2', { value: 2 });
       });
 
       const value1 = await adapter.load('tx-key1');
@@ -127,6 +226,15 @@ describe('PostgresAdapter', () => {
       expect(value1).toEqual({ value: 1 });
       expect(value2).toEqual({ value: 2 });
     });
+
+    it('should rollback failed transactions', async () => {
+      await expect(adapter.withTransaction(async (tx) => {
+        await tx.save('tx-key1', { value: 1 });
+        throw new Error('Test error');
+      })).rejects.toThrow('Test error');
+
+      expect(await adapter.load('tx-key1')).toBeNull();
+    });
   });
 
   it('should handle connection errors', async () => {
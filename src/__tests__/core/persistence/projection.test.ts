@@ -0,0 +1,126 @@
+import { Projection, ProjectionCheckpoint, ProjectionRunner } from '../../../core/persistence/projection';
+import { SQLiteEventStore } from '../../../core/persistence/sqlite.event-store';
+import { SQLiteAdapter } from '../../../core/persistence/sqlite.adapter';
+import { StateEvent } from '../../../core/types';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import * as os from 'os';
+
+interface CounterTotal {
+  total: number;
+}
+
+describe('ProjectionRunner', () => {
+  let tempDir: string;
+  let store: SQLiteEventStore;
+  let readModel: SQLiteAdapter<CounterTotal>;
+  let checkpoints: SQLiteAdapter<ProjectionCheckpoint>;
+  let runner: ProjectionRunner;
+  let totals: Projection<CounterTotal>;
+
+  function incremented(by: number): StateEvent {
+    return { type: 'incremented', data: { by }, metadata: { timestamp: Date.now(), version: 0 } };
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(os.tmpdir(), 'aiframe-test-'));
+    const filename = join(tempDir, 'test.db');
+    store = new SQLiteEventStore({ filename });
+    readModel = new SQLiteAdapter({ filename, table: 'counter_totals' });
+    checkpoints = new SQLiteAdapter({ filename, table: 'projection_checkpoints' });
+    runner = new ProjectionRunner(store, checkpoints);
+
+    totals = {
+      name: 'counter-totals',
+      streamPattern: 'counter-*',
+      readModel,
+      async handle(event, model) {
+        const current = await model.load(event.streamId!);
+        const by = (event.data as { by: number }).by;
+        await model.save(event.streamId!, { total: (current?.total || 0) + by });
+      }
+    };
+  });
+
+  afterEach(async () => {
+    await runner.stopAll();
+    await store.disconnect();
+    await readModel.disconnect();
+    await checkpoints.disconnect();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build the read model from matching streams', async () => {
+    await store.append('counter-1', [incremented(2), incremented(3)]);
+    await store.append('workflow-1', [incremented(100)]);
+    await store.append('counter-2', [incremented(1)]);
+
+    const subscription = await runner.start(totals);
+    await subscription.poll();
+
+    expect(await readModel.load('counter-1')).toEqual({ total: 5 });
+    expect(await readModel.load('counter-2')).toEqual({ total: 1 });
+    expect(await readModel.load('workflow-1')).toBeNull();
+  });
+
+  it('should store a checkpoint after each handled event', async () => {
+    await store.append('counter-1', [incremented(1), incremented(1)]);
+
+    const subscription = await runner.start(totals);
+    await subscription.poll();
+
+    expect(await runner.getCheckpoint('counter-totals')).toMatchObject({ position: 2 });
+  });
+
+  it('should resume from the checkpoint after a restart', async () => {
+    await store.append('counter-1', [incremented(1)]);
+    let subscription = await runner.start(totals);
+    await subscription.poll();
+    await runner.stop('counter-totals');
+
+    await store.append('counter-1', [incremented(4)]);
+    const handleSpy = jest.spyOn(totals, 'handle');
+    subscription = await runner.start(totals);
+    await subscription.poll();
+
+    expect(handleSpy).toHaveBeenCalledTimes(1);
+    expect(await readModel.load('counter-1')).toEqual({ total: 5 });
+  });
+
+  it('should pick up events appended while running', async () => {
+    const subscription = await runner.start(totals);
+    await subscription.poll();
+
+    await store.append('counter-1', [incremented(7)]);
+    await subscription.poll();
+
+    expect(await readModel.load('counter-1')).toEqual({ total: 7 });
+  });
+
+  it('should replay from the beginning after a reset', async () => {
+    await store.append('counter-1', [incremented(1)]);
+    const subscription = await runner.start(totals);
+    await subscription.poll();
+
+    await runner.reset('counter-totals');
+
+    expect(await runner.getCheckpoint('counter-totals')).toBeNull();
+  });
+
+  it('should not start a projection twice', async () => {
+    await runner.start(totals);
+    await expect(runner.start(totals)).rejects.toThrow('Projection counter-totals is already running');
+  });
+
+  it('should report a failing projection', async () => {
+    await store.append('counter-1', [incremented(1)]);
+    const onError = jest.fn();
+    const failing = { ...totals, handle: async () => { throw new Error('Projection failed'); } };
+
+    const subscription = await runner.start(failing, { onError });
+    await subscription.poll();
+
+    expect(onError).toHaveBeenCalledWith(new Error('Projection failed'), 0);
+    expect(await runner.getCheckpoint('counter-totals')).toBeNull();
+  });
+});
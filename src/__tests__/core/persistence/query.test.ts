@@ -0,0 +1,168 @@
+import {
+  PostgresQueryBuilder,
+  SQLiteQueryBuilder,
+  parseFilter,
+  parseIndexPath,
+  evaluateQuery,
+  parseSort
+} from '../../../core/persistence/query';
+import { QueryError } from '../../../core/persistence/errors';
+import { SQLiteAdapter } from '../../../core/persistence/sqlite.adapter';
+
+describe('parseFilter', () => {
+  it('should read dotted keys and nested objects as paths', () => {
+    expect(parseFilter({ 'owner.id': 1, profile: { city: 'Oslo' } })).toEqual([
+      { path: ['owner', 'id'], operator: '$eq', value: 1 },
+      { path: ['profile', 'city'], operator: '$eq', value: 'Oslo' }
+    ]);
+  });
+
+  it('should read operator objects as conditions', () => {
+    expect(parseFilter({ age: { $gte: 18, $lt: 65 } })).toEqual([
+      { path: ['age'], operator: '$gte', value: 18 },
+      { path: ['age'], operator: '$lt', value: 65 }
+    ]);
+  });
+
+  it('should reject unknown operators', () => {
+    expect(() => parseFilter({ age: { $regex: '.*' } })).toThrow(QueryError);
+  });
+
+  it('should reject operators mixed with fields', () => {
+    expect(() => parseFilter({ owner: { $eq: 1, id: 1 } }))
+      .toThrow('Cannot mix operators and fields in filter for owner');
+  });
+
+  it('should validate operator values', () => {
+    expect(() => parseFilter({ age: { $in: 30 } })).toThrow('$in for age must be an array');
+    expect(() => parseFilter({ age: { $gt: true } })).toThrow('$gt for age must be a number or string');
+    expect(() => parseFilter({ tags: { $contains: ['a'] } })).toThrow(QueryError);
+  });
+
+  it('should reject empty path segments', () => {
+    expect(() => parseFilter({ 'owner..id': 1 })).toThrow('Invalid field path: owner..id');
+  });
+});
+
+describe('parseIndexPath', () => {
+  it('should only accept word characters', () => {
+    expect(parseIndexPath('owner.id')).toEqual(['owner', 'id']);
+    expect(() => parseIndexPath("name'--")).toThrow(QueryError);
+  });
+});
+
+describe('parseSort', () => {
+  it('should reject invalid directions', () => {
+    expect(parseSort({ 'owner.name': 'desc' })).toEqual([{ path: ['owner', 'name'], direction: 'desc' }]);
+    expect(() => parseSort({ name: 'up' as 'asc' })).toThrow('Invalid sort direction for name: up');
+  });
+});
+
+describe('QueryBuilder', () => {
+  it('should bind paths and values as parameters', () => {
+    const built = new PostgresQueryBuilder('data', 'key').build({ "name'; DROP TABLE x; --": 'a' });
+
+    expect(built.where).not.toContain('DROP');
+    expect(built.params).toEqual([["name'; DROP TABLE x; --"], '"a"']);
+  });
+
+  it('should match everything for an empty filter', () => {
+    const built = new SQLiteQueryBuilder('data', 'key').build({});
+    expect(built).toEqual({ where: '1=1', orderBy: '', limit: '', params: [] });
+  });
+
+  it('should match nothing for an empty $in', () => {
+    expect(new SQLiteQueryBuilder('data', 'key').build({ type: { $in: [] } }).where).toBe('1=0');
+  });
+
+  it('should order by key when paging', () => {
+    const built = new PostgresQueryBuilder('data', 'key').build({}, { limit: 10, offset: 20 });
+
+    expect(built.orderBy).toBe('ORDER BY key ASC');
+    expect(built.limit).toBe('LIMIT $1 OFFSET $2');
+    expect(built.params).toEqual([10, 20]);
+  });
+
+  it('should use an unbounded limit for an offset alone in SQLite', () => {
+    const built = new SQLiteQueryBuilder('data', 'key').build({}, { offset: 5 });
+
+    expect(built.limit).toBe('LIMIT ?1 OFFSET ?2');
+    expect(built.params).toEqual([-1, 5]);
+  });
+
+  it('should reject invalid paging', () => {
+    const builder = new SQLiteQueryBuilder('data', 'key');
+    expect(() => builder.build({}, { limit: -1 })).toThrow('limit must be a non-negative integer');
+    expect(() => builder.build({}, { offset: 1.5 })).toThrow('offset must be a non-negative integer');
+  });
+
+  it('should inline indexed paths so they match the index expression', () => {
+    const postgres = new PostgresQueryBuilder('data', 'key', [['owner', 'id']]);
+    const built = postgres.build({ 'owner.id': 7, name: 'a' });
+    expect(built.where).toContain(postgres.indexExpression(['owner', 'id']));
+    expect(built.params).toEqual(['7', ['name'], '"a"']);
+    expect(postgres.build({ 'owner.id': { $gt: 3 } }).where)
+      .toContain(`${postgres.indexExpression(['owner', 'id'])} > $1::jsonb`);
+
+    const sqlite = new SQLiteQueryBuilder('data', 'key', [['status']]);
+    expect(sqlite.indexExpression(['status'])).toBe(`json_extract(data, '$."status"')`);
+    expect(sqlite.build({ status: { $gt: 'a' } }).where).toContain(sqlite.indexExpression(['status']));
+  });
+
+  it('should reject quotes in SQLite field names', () => {
+    expect(() => new SQLiteQueryBuilder('data', 'key').build({ 'a"b': 1 })).toThrow(QueryError);
+  });
+});
+
+describe('evaluateQuery', () => {
+  // U+FF5A sorts before U+1F600 in UTF-8, but after its surrogate pair in UTF-16
+  const records: Array<[string, { s: string }]> = [['a', { s: '😀' }], ['b', { s: 'ｚ' }], ['c', { s: 'a' }]];
+
+  it('should order strings by UTF-8 bytes like the databases', () => {
+    expect(evaluateQuery(records, {}, { sort: { s: 'asc' } }).map(r => r.s)).toEqual(['a', 'ｚ', '😀']);
+    expect(evaluateQuery(records, { s: { $gt: 'ｚ' } }).map(r => r.s)).toEqual(['😀']);
+  });
+
+  it('should read numeric segments as array indexes or object keys', () => {
+    const data: Array<[string, unknown]> = [
+      ['object', { o: { 0: 'zero' } }],
+      ['array', { o: ['zero'] }],
+      ['other', { o: { 1: 'zero' } }]
+    ];
+    expect(evaluateQuery(data, { 'o.0': 'zero' })).toEqual([{ o: { 0: 'zero' } }, { o: ['zero'] }]);
+  });
+});
+
+describe('SQLiteQueryBuilder', () => {
+  let adapter: SQLiteAdapter<any>;
+
+  beforeEach(() => {
+    adapter = new SQLiteAdapter({ filename: ':memory:', table: 'query_test' });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  it('should read numeric segments as array indexes or object keys', async () => {
+    await adapter.saveMany([
+      ['object', { o: { 0: 'zero' } }],
+      ['array', { o: ['zero'] }],
+      ['other', { o: { 1: 'zero' } }],
+      ['nested', { o: [{ 0: { k: 'zero' } }] }]
+    ]);
+
+    expect(await adapter.query({ 'o.0': 'zero' }, { sort: { 'o.0': 'asc' } })).toEqual([
+      { o: ['zero'] },
+      { o: { 0: 'zero' } }
+    ]);
+    expect(await adapter.count({ 'o.0.0.k': 'zero' })).toBe(1);
+  });
+
+  it('should order strings by UTF-8 bytes like the in-memory evaluation', async () => {
+    await adapter.saveMany([['a', { s: '😀' }], ['b', { s: 'ｚ' }], ['c', { s: 'a' }]]);
+
+    expect((await adapter.query({}, { sort: { s: 'asc' } })).map(r => r.s)).toEqual(['a', 'ｚ', '😀']);
+    expect(await adapter.query({ s: { $gt: 'ｚ' } })).toEqual([{ s: '😀' }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { SchemaAdapter } from '../../../core/persistence/schema.adapter';
+import { MemoryAdapter } from '../../../core/persistence/memory.adapter';
+import { PersistenceFactory } from '../../../core/persistence/factory';
+import { SchemaValidationError } from '../../../core/persistence/errors';
+
+describe('SchemaAdapter', () => {
+  let storage: MemoryAdapter<any>;
+  let adapter: SchemaAdapter<any>;
+
+  beforeEach(() => {
+    storage = new MemoryAdapter({ table: 'test_table' });
+    adapter = new SchemaAdapter(storage, { schema: { name: 'string', age: 'number' } });
+  });
+
+  it('should save and load matching records', async () => {
+    await adapter.save('key', { name: 'Alice', age: 30 });
+    await adapter.saveMany([['other', { name: 'Bob', age: 25 }]]);
+
+    expect(await adapter.load('key')).toEqual({ name: 'Alice', age: 30 });
+    expect(await adapter.query({ age: { $lt: 30 } })).toEqual([{ name: 'Bob', age: 25 }]);
+  });
+
+  it('should reject saves that do not match', async () => {
+    const error = await adapter.save('key', { name: 'Alice', age: '30' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toBe('Record key does not match its schema: age must be a number');
+    expect(error.issues).toEqual([{ path: 'age', message: 'age must be a number' }]);
+    await expect(adapter.saveMany([['a', { name: 'A', age: 1 }], ['b', { name: 'B' }]]))
+      .rejects.toThrow('Record b does not match its schema: age is required');
+    expect(await storage.count({})).toBe(0);
+  });
+
+  it('should reject stored records that do not match', async () => {
+    await storage.save('key', { name: 'Alice' });
+
+    await expect(adapter.load('key')).rejects.toThrow(SchemaValidationError);
+    await expect(adapter.query({})).rejects.toThrow('Record does not match its schema: age is required');
+  });
+
+  it('should migrate old records as they are read', async () => {
+    const migrating = new SchemaAdapter<any>(storage, {
+      schema: { name: 'string', age: 'number' },
+      migrate: (data: any) => ({ name: data.fullName, age: data.age ?? 0 })
+    });
+    await storage.save('key', { fullName: 'Alice' });
+
+    expect(await migrating.loadWithRevision('key')).toEqual({ data: { name: 'Alice', age: 0 }, revision: 1 });
+    const scanned = [];
+    for await (const entry of migrating.scan()) scanned.push(entry);
+    expect(scanned).toEqual([['key', { name: 'Alice', age: 0 }]]);
+    expect(await storage.load('key')).toEqual({ fullName: 'Alice' });
+  });
+
+  it('should check records inside transactions', async () => {
+    const other = new SchemaAdapter<any>(new MemoryAdapter({ table: 'other' }), { schema: { value: 'number' } });
+
+    await expect(adapter.withTransaction(async (tx) => {
+      await tx.save('key', { name: 'Alice', age: 30 });
+      await tx.use(other).save('key', { value: 'x' });
+    })).rejects.toThrow('Record key does not match its schema: value must be a number');
+    expect(await adapter.load('key')).toBeNull();
+
+    await adapter.withTransaction(async (tx) => {
+      await tx.use(other).save('key', { value: 1 });
+    });
+    expect(await other.load('key')).toEqual({ value: 1 });
+  });
+
+  it('should be created by the PersistenceFactory', async () => {
+    const created = await PersistenceFactory.createAdapter('schema-test', {
+      type: 'memory',
+      database: 'test',
+      recordSchema: { count: 'number' }
+    });
+
+    await expect(created.save('key', { count: 'one' })).rejects.toThrow(SchemaValidationError);
+    await PersistenceFactory.removeAdapter('schema-test');
+  });
+});
@@ -0,0 +1,51 @@
+import { RecordSchema } from '../../../core/persistence/schema';
+import { counterIntent } from '../../../features/counter/intent';
+
+describe('RecordSchema', () => {
+  it('should derive a schema from an intent', () => {
+    const schema = RecordSchema.fromIntent(counterIntent);
+
+    expect(schema.validate({ count: 1 })).toEqual([]);
+    expect(schema.validate({ count: '1' })).toEqual([{ path: 'count', message: 'count must be a number' }]);
+    expect(schema.validate({})).toEqual([{ path: 'count', message: 'count is required' }]);
+    expect(schema.validate([])).toEqual([{ path: '', message: 'record must be an object' }]);
+  });
+
+  it('should check nested definitions, arrays and records', () => {
+    const schema = new RecordSchema({
+      owner: { id: 'number', 'email?': 'string' },
+      tags: 'string[]',
+      scores: 'Record<string, number>',
+      history: [{ at: 'number' }]
+    });
+
+    expect(schema.validate({ owner: { id: 1 }, tags: ['a'], scores: { a: 1 }, history: [{ at: 1 }] })).toEqual([]);
+    expect(schema.validate({ owner: { id: 1, email: 2 }, tags: ['a', 1], scores: { a: 'x' }, history: [{}] }))
+      .toEqual([
+        { path: 'owner.email', message: 'owner.email must be a string' },
+        { path: 'tags[1]', message: 'tags[1] must be a string' },
+        { path: 'scores.a', message: 'scores.a must be a number' },
+        { path: 'history[0].at', message: 'history[0].at is required' }
+      ]);
+  });
+
+  it('should check unions and literals', () => {
+    const schema = new RecordSchema({ status: "'open' | 'done'", user: 'User | null', count: 'number | undefined' });
+
+    expect(schema.validate({ status: 'open', user: { name: 'a' } })).toEqual([]);
+    expect(schema.validate({ status: 'closed' })).toEqual([
+      { path: 'status', message: "status must be 'open' | 'done'" }
+    ]);
+  });
+
+  it('should accept named types it cannot check', () => {
+    const schema = new RecordSchema({ registeredComponents: 'Record<string, Intent>', created: 'Date' });
+    expect(schema.validate({ registeredComponents: { a: 1 }, created: 'yesterday' })).toEqual([]);
+  });
+
+  it('should reject malformed definitions', () => {
+    expect(() => new RecordSchema({ tags: 'Array<string' })).toThrow('Unbalanced schema type');
+    expect(() => new RecordSchema({ count: 'number ^ string' })).toThrow('Invalid schema type');
+    expect(() => new RecordSchema({ count: 1 })).toThrow('Invalid schema definition for count');
+  });
+});
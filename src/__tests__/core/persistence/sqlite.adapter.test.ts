@@ -1,4 +1,6 @@
 import { SQLiteAdapter } from '../../../core/persistence/sqlite.adapter';
+import { IdentifierError, RevisionConflictError, TransactionError } from '../../../core/persistence/errors';
+import { Database } from 'sqlite3';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import * as os from 'os';
@@ -82,13 +84,291 @@ describe('SQLiteAdapter', () => {
       const results = await adapter.query({ type: 'non-existent' });
       expect(results).toHaveLength(0);
     });
+
+    it('should support comparison operators', async () => {
+      const older = await adapter.query({ age: { $gt: 25 } });
+      expect(older.map(r => r.name).sort()).toEqual(['Alice', 'Charlie']);
+
+      const range = await adapter.query({ age: { $gte: 25, $lt: 35 } });
+      expect(range.map(r => r.name).sort()).toEqual(['Alice', 'Bob']);
+
+      const others = await adapter.query({ type: { $ne: 'user' } });
+      expect(others.map(r => r.name)).toEqual(['Charlie']);
+    });
+
+    it('should support $in and $contains', async () => {
+      await adapter.save('key4', { type: 'guest', name: 'Dana', tags: ['new', 'trial'] });
+
+      const staff = await adapter.query({ type: { $in: ['admin', 'guest'] } });
+      expect(staff.map(r => r.name).sort()).toEqual(['Charlie', 'Dana']);
+
+      expect(await adapter.query({ tags: { $contains: 'trial' } })).toHaveLength(1);
+      expect(await adapter.query({ name: { $contains: 'li' } })).toHaveLength(2);
+    });
+
+    it('should compare values by type', async () => {
+      expect(await adapter.query({ age: '30' })).toHaveLength(0);
+      expect(await adapter.query({ age: 30 })).toHaveLength(1);
+    });
+
+    it('should query nested paths', async () => {
+      await adapter.save('key4', { name: 'Dana', owner: { id: 7 } });
+
+      const dotted = await adapter.query({ 'owner.id': 7 });
+      const nested = await adapter.query({ owner: { id: 7 } });
+      expect(dotted.map(r => r.name)).toEqual(['Dana']);
+      expect(nested).toEqual(dotted);
+    });
+
+    it('should sort and page results', async () => {
+      const sorted = await adapter.query({}, { sort: { age: 'desc' } });
+      expect(sorted.map(r => r.name)).toEqual(['Charlie', 'Alice', 'Bob']);
+
+      const page = await adapter.query({}, { sort: { name: 'asc' }, limit: 1, offset: 1 });
+      expect(page.map(r => r.name)).toEqual(['Bob']);
+    });
+
+    it('should count matching records', async () => {
+      expect(await adapter.count({ type: 'user' })).toBe(2);
+      expect(await adapter.count({ age: { $lte: 30 } })).toBe(2);
+      expect(await adapter.count({})).toBe(3);
+    });
+
+    it('should reject invalid filters', async () => {
+      await expect(adapter.query({ age: { $regex: '3' } })).rejects.toThrow('Unknown filter operator');
+    });
+
+    it('should treat filter keys as data rather than SQL', async () => {
+      expect(await adapter.query({ "a' OR '1'='1": 'x' })).toEqual([]);
+      expect(await adapter.count({ "name') OR 1=1 --": { $ne: null } })).toBe(0);
+      await expect(adapter.count({ 'name") OR 1=1 --': 'x' })).rejects.toThrow('Field names containing quotes');
+    });
+  });
+
+  describe('Identifiers', () => {
+    it('should reject unsafe table and column names', () => {
+      expect(() => new SQLiteAdapter({ filename: ':memory:', table: 'items; DROP TABLE users' }))
+        .toThrow(IdentifierError);
+      expect(() => new SQLiteAdapter({ filename: ':memory:', table: 'items', keyColumn: 'key"' }))
+        .toThrow('Invalid column name');
+    });
+
+    it('should work with custom column names', async () => {
+      const custom = new SQLiteAdapter<any>({ filename: ':memory:', table: 'Items', keyColumn: 'id', dataColumn: 'body' });
+      try {
+        await custom.save('a', { status: 'open' });
+        await custom.saveMany([['b', { status: 'done' }]]);
+        expect(await custom.loadWithRevision('a')).toEqual({ data: { status: 'open' }, revision: 1 });
+        expect(await custom.query({ status: 'done' })).toEqual([{ status: 'done' }]);
+        expect(Array.from((await custom.loadMany(['a', 'b'])).keys()).sort()).toEqual(['a', 'b']);
+
+        const scanned = [];
+        for await (const [key] of custom.scan({}, { batchSize: 1 })) scanned.push(key);
+        expect(scanned).toEqual(['a', 'b']);
+      } finally {
+        await custom.disconnect();
+      }
+    });
+  });
+
+  describe('Indexes', () => {
+    it('should create expression indexes that queries use', async () => {
+      const indexed = new SQLiteAdapter<any>({ filename: join(tempDir, 'indexed.db'), table: 'items', indexes: ['status', 'owner.id'] });
+      try {
+        await indexed.saveMany([['a', { status: 'open', owner: { id: 1 } }], ['b', { status: 'done', owner: { id: 2 } }]]);
+        expect(await indexed.query({ status: 'open' })).toEqual([{ status: 'open', owner: { id: 1 } }]);
+        expect(await indexed.count({ 'owner.id': { $gt: 1 } })).toBe(1);
+
+        const db: Database = indexed['db'];
+        const all = (sql: string): Promise<any[]> =>
+          new Promise((resolve, reject) => db.all(sql, (err, rows) => err ? reject(err) : resolve(rows)));
+        const names = (await all(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'items'`))
+          .map(row => row.name);
+        expect(names).toEqual(expect.arrayContaining(['items_status_idx', 'items_owner__id_idx']));
+
+        const plan = await all(`EXPLAIN QUERY PLAN SELECT data FROM items WHERE json_extract(data, '$."status"') = 'open'`);
+        expect(plan[0].detail).toContain('items_status_idx');
+      } finally {
+        await indexed.disconnect();
+      }
+    });
+
+    it('should reject index paths that cannot be inlined', () => {
+      expect(() => new SQLiteAdapter({ filename: ':memory:', table: 'items', indexes: ["a'b"] }))
+        .toThrow('Indexed field names may only contain letters, digits and underscores');
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should start at 1 and increase on every save', async () => {
+      expect(await adapter.save('key', { value: 1 })).toBe(1);
+      expect(await adapter.save('key', { value: 2 })).toBe(2);
+      expect(await adapter.loadWithRevision('key')).toEqual({ data: { value: 2 }, revision: 2 });
+    });
+
+    it('should reject stale writes', async () => {
+      await adapter.save('key', { value: 1 }, { ifRevision: 0 });
+      await adapter.save('key', { value: 2 }, { ifRevision: 1 });
+
+      const error = await adapter.save('key', { value: 3 }, { ifRevision: 1 }).catch(e => e);
+      expect(error).toBeInstanceOf(RevisionConflictError);
+      expect(error).toMatchObject({ key: 'key', expectedRevision: 1, actualRevision: 2 });
+      await expect(adapter.save('key', {}, { ifRevision: 0 })).rejects.toThrow('Record key is at revision 2, expected 0');
+      await expect(adapter.save('new', {}, { ifRevision: 1 })).rejects.toThrow('Record new does not exist');
+      expect(await adapter.load('key')).toEqual({ value: 2 });
+    });
+
+    it('should add the revision column to existing tables', async () => {
+      const db = new Database(join(tempDir, 'legacy.db'));
+      await new Promise<void>((resolve, reject) => db.exec(`
+        CREATE TABLE legacy (key TEXT PRIMARY KEY, data TEXT NOT NULL, created_at DATETIME, updated_at DATETIME);
+        INSERT INTO legacy (key, data) VALUES ('key', '{"value":1}');
+      `, err => { db.close(); if (err) reject(err); else resolve(); }));
+
+      const legacy = new SQLiteAdapter<any>({ filename: join(tempDir, 'legacy.db'), table: 'legacy' });
+      try {
+        expect(await legacy.loadWithRevision('key')).toEqual({ data: { value: 1 }, revision: 1 });
+        expect(await legacy.save('key', { value: 2 }, { ifRevision: 1 })).toBe(2);
+      } finally {
+        await legacy.disconnect();
+      }
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    it('should save and load many records', async () => {
+      await adapter.save('b', { value: 0 });
+
+      expect(await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }]])).toEqual([1, 2]);
+      const loaded = await adapter.loadMany(['a', 'b', 'missing']);
+      expect(Array.from(loaded)).toEqual(expect.arrayContaining([['a', { value: 1 }], ['b', { value: 2 }]]));
+      expect(loaded.size).toBe(2);
+    });
+
+    it('should reject duplicate keys without saving anything', async () => {
+      await expect(adapter.saveMany([['a', { value: 1 }], ['a', { value: 2 }]]))
+        .rejects.toThrow('Duplicate key in bulk write: a');
+      expect(await adapter.load('a')).toBeNull();
+    });
+
+    it('should delete many records', async () => {
+      await adapter.saveMany([['a', { value: 1 }], ['b', { value: 2 }], ['c', { value: 3 }]]);
+
+      expect(await adapter.deleteMany(['a', 'c', 'missing'])).toBe(2);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should scan matching records', async () => {
+      await adapter.saveMany(Array.from({ length: 7 }, (_, i): [string, any] => [`key${i}`, { i, even: i % 2 === 0 }]));
+
+      const scanned: Array<[string, any]> = [];
+      for await (const entry of adapter.scan({ even: true }, { batchSize: 2 })) {
+        scanned.push(entry);
+      }
+      expect(scanned.map(([key]) => key).sort()).toEqual(['key0', 'key2', 'key4', 'key6']);
+      expect(scanned.every(([, record]) => record.even)).toBe(true);
+      await expect(adapter.scan({}, { batchSize: 0 }).next()).rejects.toThrow('batchSize must be a positive integer');
+    });
+
+    it('should roll back a bulk save that fails part way', async () => {
+      const circular: any = {};
+      circular.self = circular;
+
+      await expect(adapter.saveMany([['a', { value: 1 }], ['b', circular]])).rejects.toThrow();
+      expect(await adapter.load('a')).toBeNull();
+    });
+
+    it('should page through rows in key order', async () => {
+      await adapter.saveMany(Array.from({ length: 5 }, (_, i): [string, any] => [`key${i}`, { i }]));
+
+      const keys: string[] = [];
+      for await (const [key] of adapter.scan({}, { batchSize: 2 })) {
+        keys.push(key);
+      }
+      expect(keys).toEqual(['key0', 'key1', 'key2', 'key3', 'key4']);
+    });
+  });
+
+  describe('Expiry', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hide records once their TTL passes', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('permanent', { value: 2 });
+
+      now += 999;
+      expect(await adapter.load('key')).toEqual({ value: 1 });
+      now += 1;
+      expect(await adapter.load('key')).toBeNull();
+      expect(await adapter.query({})).toEqual([{ value: 2 }]);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should treat expired records as missing when saving', async () => {
+      await adapter.save('key', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('key', { value: 2 }, { ttlMs: 1000 });
+      now += 1000;
+
+      await expect(adapter.save('key', { value: 3 }, { ifRevision: 2 })).rejects.toThrow('Record key does not exist');
+      expect(await adapter.save('key', { value: 3 }, { ifRevision: 0 })).toBe(1);
+      now += 5000;
+      expect(await adapter.load('key')).toEqual({ value: 3 });
+    });
+
+    it('should delete expired records on sweep', async () => {
+      await adapter.save('a', { value: 1 }, { ttlMs: 1000 });
+      await adapter.save('b', { value: 2 }, { ttlMs: 2000 });
+      await adapter.save('c', { value: 3 });
+      now += 1500;
+
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.sweep()).toBe(0);
+      now += 500;
+      expect(await adapter.sweep()).toBe(1);
+      expect(await adapter.count({})).toBe(1);
+    });
+
+    it('should reject invalid TTLs', async () => {
+      await expect(adapter.save('key', {}, { ttlMs: 0 })).rejects.toThrow('ttlMs must be a positive number');
+    });
+
+    it('should add the expires_at column to existing tables', async () => {
+      const db = new Database(join(tempDir, 'legacy.db'));
+      await new Promise<void>((resolve, reject) => db.exec(`
+        CREATE TABLE legacy (
+          key TEXT PRIMARY KEY, data TEXT NOT NULL, revision INTEGER NOT NULL DEFAULT 1,
+          created_at DATETIME, updated_at DATETIME
+        );
+        INSERT INTO legacy (key, data) VALUES ('key', '{"value":1}');
+      `, err => { db.close(); if (err) reject(err); else resolve(); }));
+
+      const legacy = new SQLiteAdapter<any>({ filename: join(tempDir, 'legacy.db'), table: 'legacy' });
+      try {
+        expect(await legacy.load('key')).toEqual({ value: 1 });
+        await legacy.save('key', { value: 2 }, { ttlMs: 1000 });
+        now += 1000;
+        expect(await legacy.load('key')).toBeNull();
+      } finally {
+        await legacy.disconnect();
+      }
+    });
   });
 
   describe('Transaction Support', () => {
     it('should handle successful transactions', async () => {
-      await adapter.withTransaction(async (db) => {
-        await adapter.save('tx-key1', { value: 1 });
-        await adapter.save('tx-key2', { value: 2 });
+      await adapter.withTransaction(async (tx) => {
+        await tx.save('tx-key1', { value: 1 });
+        await tx.save('tx-key2', { value: 2 });
+        expect(await tx.count({})).toBe(2);
       });
 
       const value1 = await adapter.load('tx-key1');
@@ -99,8 +379,8 @@ describe('SQLiteAdapter', () => {
 
     it('should rollback failed transactions', async () => {
       try {
-        await adapter.withTransaction(async (db) => {
-          await adapter.save('tx-key1', { value: 1 });
+        await adapter.withTransaction(async (tx) => {
+          await tx.save('tx-key1', { value: 1 });
           throw new Error('Test error');
         });
       } catch (error) {
@@ -110,5 +390,90 @@ describe('SQLiteAdapter', () => {
       const value = await adapter.load('tx-key1');
       expect(value).toBeNull();
     });
+
+    it('should run concurrent transactions one at a time', async () => {
+      await Promise.all([1, 2, 3].map(i => adapter.withTransaction(async (tx) => {
+        const current = await tx.load('counter');
+        await tx.save('counter', { value: (current?.value ?? 0) + i });
+      })));
+
+      expect(await adapter.load('counter')).toEqual({ value: 6 });
+    });
+
+    it('should keep operations outside a transaction out of it', async () => {
+      let opened!: () => void;
+      const isOpen = new Promise<void>(resolve => { opened = resolve; });
+      const failed = adapter.withTransaction(async (tx) => {
+        await tx.save('inside', { value: 1 });
+        opened();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        throw new Error('Test error');
+      });
+
+      await isOpen;
+      const saved = adapter.save('outside', { value: 2 });
+
+      await expect(failed).rejects.toThrow('Test error');
+      expect(await saved).toBe(1);
+      expect(await adapter.load('outside')).toEqual({ value: 2 });
+      expect(await adapter.load('inside')).toBeNull();
+    });
+
+    it('should run calls made from the callback inside the transaction', async () => {
+      await expect(adapter.withTransaction(async () => {
+        await adapter.save('direct', { value: 1 });
+        throw new Error('Test error');
+      })).rejects.toThrow('Test error');
+
+      expect(await adapter.load('direct')).toBeNull();
+    });
+
+    it('should span adapters on the same database file', async () => {
+      const other = new SQLiteAdapter<any>({ filename: dbPath, table: 'other_table' });
+
+      try {
+        await expect(adapter.withTransaction(async (tx) => {
+          await tx.save('key', { value: 1 });
+          await tx.use(other).save('key', { value: 2 });
+          throw new Error('Test error');
+        })).rejects.toThrow('Test error');
+
+        expect(await adapter.load('key')).toBeNull();
+        expect(await other.load('key')).toBeNull();
+
+        await adapter.withTransaction(async (tx) => {
+          await tx.save('key', { value: 1 });
+          await tx.use(other).save('key', { value: 2 });
+        });
+
+        expect(await adapter.load('key')).toEqual({ value: 1 });
+        expect(await other.load('key')).toEqual({ value: 2 });
+      } finally {
+        await other.disconnect();
+      }
+    });
+
+    it('should refuse adapters on another database', async () => {
+      const other = new SQLiteAdapter<any>({ filename: ':memory:', table: 'other_table' });
+
+      try {
+        await expect(adapter.withTransaction(async (tx) => {
+          tx.use(other);
+        })).rejects.toThrow(TransactionError);
+      } finally {
+        await other.disconnect();
+      }
+    });
+  });
+
+  it('should release the shared handle once however often it disconnects', async () => {
+    const other = new SQLiteAdapter<any>({ filename: dbPath, table: 'other_table' });
+    await other.save('key', { value: 1 });
+
+    await other.disconnect();
+    await other.disconnect();
+
+    await adapter.save('key', { value: 2 });
+    expect(await adapter.load('key')).toEqual({ value: 2 });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,243 @@
+import { SQLiteEventStore } from '../../../core/persistence/sqlite.event-store';
+import { PersistenceFactory } from '../../../core/persistence/factory';
+import { SQLiteAdapter } from '../../../core/persistence/sqlite.adapter';
+import { ConcurrencyError } from '../../../core/persistence/errors';
+import { UpcasterRegistry } from '../../../core/persistence/upcasting';
+import { StateEvent } from '../../../core/types';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import * as os from 'os';
+
+describe('SQLiteEventStore', () => {
+  let store: SQLiteEventStore;
+  let tempDir: string;
+
+  function event(type: string, data: unknown = {}): StateEvent {
+    return { type, data, metadata: { timestamp: Date.now(), version: 0 } };
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(os.tmpdir(), 'aiframe-test-'));
+    store = new SQLiteEventStore({ filename: join(tempDir, 'events.db') });
+  });
+
+  afterEach(async () => {
+    await store.disconnect();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Events', () => {
+    it('should append and read events in order', async () => {
+      await store.append('stream-1', [event('created', { name: 'a' }), event('renamed', { name: 'b' })]);
+      await store.append('stream-1', [event('deleted')]);
+
+      const events = await store.read('stream-1');
+      expect(events.map(e => e.type)).toEqual(['created', 'renamed', 'deleted']);
+      expect(events.map(e => e.metadata.version)).toEqual([0, 1, 2]);
+      expect(events[1].data).toEqual({ name: 'b' });
+    });
+
+    it('should read from a given version', async () => {
+      await store.append('stream-1', [event('a'), event('b'), event('c')]);
+
+      const events = await store.read('stream-1', 1);
+      expect(events.map(e => e.type)).toEqual(['b', 'c']);
+    });
+
+    it('should keep streams separate', async () => {
+      await store.append('stream-1', [event('a')]);
+      await store.append('stream-2', [event('b')]);
+
+      const events = await store.read('stream-2');
+      expect(events).toHaveLength(1);
+      expect(events[0].metadata.version).toBe(0);
+    });
+
+    it('should return an empty array for unknown streams', async () => {
+      expect(await store.read('missing')).toEqual([]);
+    });
+  });
+
+  describe('Global Order', () => {
+    it('should read events from every stream by position', async () => {
+      await store.append('stream-1', [event('a')]);
+      await store.append('stream-2', [event('b')]);
+      await store.append('stream-1', [event('c')]);
+
+      const events = await store.readAll();
+      expect(events.map(e => [e.streamId, e.type, e.position])).toEqual([
+        ['stream-1', 'a', 1],
+        ['stream-2', 'b', 2],
+        ['stream-1', 'c', 3]
+      ]);
+      expect((await store.readAll(1, 1)).map(e => e.type)).toEqual(['b']);
+    });
+
+    it('should notify subscribers after appends', async () => {
+      const received: string[] = [];
+      const subscription = store.subscribe('stream-*', e => { received.push(e.type); }, { pollInterval: 60000 });
+      await subscription.poll();
+
+      await store.append('stream-1', [event('a')]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(received).toEqual(['a']);
+      await subscription.stop();
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should append when the expected version matches', async () => {
+      await store.append('stream-1', [event('a')], { expectedVersion: -1 });
+      await store.append('stream-1', [event('b')], { expectedVersion: 0 });
+
+      expect(await store.read('stream-1')).toHaveLength(2);
+    });
+
+    it('should reject appends against a stale version', async () => {
+      await store.append('stream-1', [event('a')]);
+
+      await expect(store.append('stream-1', [event('b')], { expectedVersion: -1 }))
+        .rejects.toThrow(ConcurrencyError);
+      expect(await store.read('stream-1')).toHaveLength(1);
+    });
+
+    it('should let only one of two concurrent writers win', async () => {
+      const results = await Promise.allSettled([
+        store.append('stream-1', [event('a')], { expectedVersion: -1 }),
+        store.append('stream-1', [event('b')], { expectedVersion: -1 })
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await store.read('stream-1')).toHaveLength(1);
+    });
+  });
+
+  describe('Shared Connections', () => {
+    it('should keep appends out of an adapter transaction on the same file', async () => {
+      const adapter = new SQLiteAdapter<any>({ filename: join(tempDir, 'events.db'), table: 'orders' });
+      await store.initialize();
+      try {
+        let opened!: () => void;
+        const isOpen = new Promise<void>(resolve => { opened = resolve; });
+        const transaction = adapter.withTransaction(async tx => {
+          await tx.save('order-1', { total: 1 });
+          opened();
+          await new Promise(resolve => setTimeout(resolve, 20));
+          throw new Error('Test error');
+        });
+
+        await isOpen;
+        const append = store.append('stream-1', [event('created')]);
+        await expect(transaction).rejects.toThrow('Test error');
+        await append;
+
+        // The append waited for the rollback instead of being undone by it
+        expect(await store.read('stream-1')).toHaveLength(1);
+        expect(await adapter.load('order-1')).toBeNull();
+      } finally {
+        await adapter.disconnect();
+      }
+    });
+
+    it('should keep subscription handlers out of a later transaction', async () => {
+      const filename = join(tempDir, 'events.db');
+      const projection = new SQLiteAdapter<any>({ filename, table: 'latest' });
+      const orders = new SQLiteAdapter<any>({ filename, table: 'orders' });
+      await Promise.all([store.initialize(), projection.initialize(), orders.initialize()]);
+      let opened!: () => void;
+      const isOpen = new Promise<void>(resolve => { opened = resolve; });
+      let handled!: () => void;
+      const isHandled = new Promise<void>(resolve => { handled = resolve; });
+      const subscription = store.subscribe('stream-*', async e => {
+        await isOpen;
+        await projection.save('stream-1', { type: e.type });
+        handled();
+      }, { pollInterval: 60000 });
+      try {
+        // Let the first poll finish, so the append's notification delivers the event
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await store.append('stream-1', [event('created')]);
+        const transaction = orders.withTransaction(async tx => {
+          await tx.save('order-1', { total: 1 });
+          opened();
+          await new Promise(resolve => setTimeout(resolve, 20));
+          throw new Error('Test error');
+        });
+
+        await expect(transaction).rejects.toThrow('Test error');
+        await isHandled;
+
+        // The handler waited for the rollback instead of being undone by it
+        expect(await projection.load('stream-1')).toEqual({ type: 'created' });
+      } finally {
+        await subscription.stop();
+        await projection.disconnect();
+        await orders.disconnect();
+      }
+    });
+  });
+
+  describe('Upcasting', () => {
+    it('should upcast old events when reading', async () => {
+      const filename = join(tempDir, 'upcast.db');
+      const legacy = new SQLiteEventStore({ filename });
+      await legacy.append('stream-1', [event('renamed', { name: 'old' })]);
+      await legacy.disconnect();
+
+      const upcasters = new UpcasterRegistry()
+        .register('renamed', 1, data => ({ title: (data as { name: string }).name }));
+      const current = new SQLiteEventStore({ filename, upcasters });
+      await current.append('stream-1', [event('renamed', { title: 'new' })]);
+
+      const events = await current.read('stream-1');
+      await current.disconnect();
+
+      expect(events.map(e => e.data)).toEqual([{ title: 'old' }, { title: 'new' }]);
+      expect(events.map(e => e.metadata.schemaVersion)).toEqual([2, 2]);
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should save and load snapshots', async () => {
+      await store.saveSnapshot('stream-1', { state: { count: 3 }, version: 2, timestamp: Date.now() });
+
+      const snapshot = await store.getSnapshot('stream-1');
+      expect(snapshot).toMatchObject({ state: { count: 3 }, version: 2 });
+      expect(typeof snapshot?.timestamp).toBe('number');
+    });
+
+    it('should replace existing snapshots', async () => {
+      await store.saveSnapshot('stream-1', { state: { count: 1 }, version: 0, timestamp: Date.now() });
+      await store.saveSnapshot('stream-1', { state: { count: 5 }, version: 4, timestamp: Date.now() });
+
+      expect(await store.getSnapshot('stream-1')).toMatchObject({ state: { count: 5 }, version: 4 });
+    });
+
+    it('should return null without a snapshot', async () => {
+      expect(await store.getSnapshot('missing')).toBeNull();
+    });
+  });
+
+  describe('PersistenceFactory', () => {
+    afterEach(async () => {
+      await PersistenceFactory.removeAll();
+    });
+
+    it('should create a SQLite event store', async () => {
+      const created = await PersistenceFactory.createEventStore('events', {
+        type: 'sqlite',
+        database: 'test',
+        filename: join(tempDir, 'factory.db')
+      });
+
+      expect(created).toBeInstanceOf(SQLiteEventStore);
+      expect(await PersistenceFactory.getEventStore('events')).toBe(created);
+    });
+
+    it('should require a filename', async () => {
+      await expect(PersistenceFactory.createEventStore('events', { type: 'sqlite', database: 'test' }))
+        .rejects.toThrow('Missing required SQLite configuration: filename');
+    });
+  });
+});
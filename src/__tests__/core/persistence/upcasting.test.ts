@@ -0,0 +1,56 @@
+import { UpcasterRegistry, schemaVersionFor } from '../../../core/persistence/upcasting';
+import { StateEvent } from '../../../core/types';
+
+describe('UpcasterRegistry', () => {
+  let registry: UpcasterRegistry;
+
+  function event(type: string, data: unknown, schemaVersion?: number): StateEvent {
+    return { type, data, metadata: { timestamp: 1, version: 0, schemaVersion } };
+  }
+
+  beforeEach(() => {
+    registry = new UpcasterRegistry()
+      // v1 stored a single name, v2 split it
+      .register('userRegistered', 1, data => {
+        const [firstName, lastName] = (data as { name: string }).name.split(' ');
+        return { firstName, lastName };
+      })
+      // v3 added an email field
+      .register('userRegistered', 2, data => ({ ...(data as object), email: null }));
+  });
+
+  it('should report the current schema version per event type', () => {
+    expect(registry.currentVersion('userRegistered')).toBe(3);
+    expect(registry.currentVersion('other')).toBe(1);
+  });
+
+  it('should upcast events through every version', () => {
+    const upcast = registry.upcast(event('userRegistered', { name: 'Ada Lovelace' }));
+
+    expect(upcast.data).toEqual({ firstName: 'Ada', lastName: 'Lovelace', email: null });
+    expect(upcast.metadata.schemaVersion).toBe(3);
+  });
+
+  it('should upcast from an intermediate version', () => {
+    const upcast = registry.upcast(event('userRegistered', { firstName: 'Ada', lastName: 'L' }, 2));
+    expect(upcast.data).toEqual({ firstName: 'Ada', lastName: 'L', email: null });
+  });
+
+  it('should leave current events untouched', () => {
+    const current = event('userRegistered', { firstName: 'Ada' }, 3);
+    expect(registry.upcast(current)).toBe(current);
+    const other = event('other', {});
+    expect(registry.upcast(other)).toBe(other);
+  });
+
+  it('should reject duplicate upcasters', () => {
+    expect(() => registry.register('userRegistered', 1, data => data))
+      .toThrow('Upcaster already registered for userRegistered v1');
+  });
+
+  it('should stamp new events with the current schema version', () => {
+    expect(schemaVersionFor(event('userRegistered', {}), registry)).toBe(3);
+    expect(schemaVersionFor(event('userRegistered', {}, 2), registry)).toBe(2);
+    expect(schemaVersionFor(event('userRegistered', {}))).toBe(1);
+  });
+});
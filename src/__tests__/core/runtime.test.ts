@@ -1,7 +1,17 @@
-import { Runtime } from '../../core/runtime';
+import { Runtime, RuntimeError } from '../../core/runtime';
 import { TestComponent, testIntent } from '../utils/test-component';
+import { WorkflowComponent } from '../utils/workflow-component';
+import { CounterComponent } from '../../features/counter/component';
+import { PersistenceFactory } from '../../core/persistence/factory';
+import { RevisionConflictError } from '../../core/persistence/errors';
+import { promises as fs } from 'fs';
+import * as os from 'os';
 import { join } from 'path';
-import { Request, Response } from 'express';
+import express, { IRouter, Request, Response } from 'express';
+import session from 'express-session';
+import { AddressInfo } from 'net';
+import { setScopedState } from '../../core/state-scope';
+import { ServerComponent } from '../../core/types';
 
 describe('Runtime', () => {
   let runtime: Runtime;
@@ -92,10 +102,494 @@ describe('Runtime', () => {
     });
   });
 
+  describe('Parameter Validation', () => {
+    it('should pass validated parameters to the component', async () => {
+      const req = {
+        path: '/test/value',
+        method: 'POST',
+        body: { value: 'hello' }
+      } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(component, req, res);
+
+      expect(component.getState().value).toBe('hello');
+    });
+
+    it('should return a structured error for invalid requests', async () => {
+      const req = {
+        path: '/test/value',
+        method: 'POST',
+        body: {},
+        is: jest.fn().mockReturnValue(false)
+      } as unknown as Request;
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn()
+      } as unknown as Response;
+      const spy = jest.spyOn(component, 'handleAction');
+
+      await runtime.handleAction(component, req, res);
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'ValidationError',
+        action: 'setValue',
+        errors: [{ parameter: 'value', message: 'value is required' }]
+      });
+    });
+
+    it('should flash errors and redirect back for form posts', async () => {
+      const req = {
+        path: '/test/value',
+        method: 'POST',
+        body: {},
+        session: {},
+        is: jest.fn().mockReturnValue('application/x-www-form-urlencoded')
+      } as unknown as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(component, req, res);
+
+      expect(req.session.flash).toEqual({ type: 'error', message: 'value is required' });
+      expect(res.redirect).toHaveBeenCalledWith('back');
+    });
+  });
+
+  describe('State Machine', () => {
+    let workflow: WorkflowComponent;
+
+    beforeEach(() => {
+      workflow = new WorkflowComponent();
+      runtime.registerComponent('workflow', workflow);
+    });
+
+    it('should allow transitions from the current state', async () => {
+      const req = { path: '/workflow/submit', method: 'POST' } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(workflow, req, res);
+
+      expect(workflow.getState().status).toBe('submitted');
+    });
+
+    it('should reject actions not allowed from the current state', async () => {
+      const req = {
+        path: '/workflow/approve',
+        method: 'POST',
+        is: jest.fn().mockReturnValue(false)
+      } as unknown as Request;
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn()
+      } as unknown as Response;
+
+      await runtime.handleAction(workflow, req, res);
+
+      expect(workflow.getState().status).toBe('draft');
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'InvalidTransitionError',
+        action: 'approve',
+        state: 'draft',
+        allowed: ['submit']
+      });
+    });
+
+    it('should check transitions against the loaded state', async () => {
+      // The stored record has moved on while the in-memory copy still says draft
+      (workflow as ServerComponent).loadState = async () => {
+        workflow['state'] = { status: 'approved' };
+      };
+      const req = {
+        path: '/workflow/submit',
+        method: 'POST',
+        is: jest.fn().mockReturnValue(false)
+      } as unknown as Request;
+      const res = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn()
+      } as unknown as Response;
+
+      await runtime.handleAction(workflow, req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(workflow.getState().status).toBe('approved');
+    });
+
+    it('should render the state graph of a component', () => {
+      expect(runtime.getStateGraph('workflow')).toContain('stateDiagram-v2');
+      expect(runtime.getStateGraph('workflow', 'dot')).toContain('digraph "workflow"');
+    });
+
+    it('should reject graphs for components without a state machine', () => {
+      runtime.registerComponent('test', component);
+      expect(() => runtime.getStateGraph('test')).toThrow(RuntimeError);
+    });
+  });
+
+  describe('State Scoping', () => {
+    let counter: CounterComponent;
+
+    beforeEach(() => {
+      counter = new CounterComponent();
+      runtime.registerComponent('counter', counter);
+    });
+
+    function request(session: Record<string, unknown>): Request {
+      return { path: '/counter/increment', method: 'POST', body: {}, session } as unknown as Request;
+    }
+
+    it('should keep separate state for each session', async () => {
+      const res = { redirect: jest.fn() } as unknown as Response;
+      const first = {};
+      const second = {};
+
+      await runtime.handleAction(counter, request(first), res);
+      await runtime.handleAction(counter, request(first), res);
+      await runtime.handleAction(counter, request(second), res);
+
+      expect(first).toEqual({ componentState: { counter: { count: 2 } } });
+      expect(second).toEqual({ componentState: { counter: { count: 1 } } });
+    });
+
+    it('should share user state across sessions', async () => {
+      counter.stateScope = 'user';
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(counter, request({ userId: 'alice' }), res);
+      await runtime.handleAction(counter, request({ userId: 'alice' }), res);
+      await runtime.handleAction(counter, request({ userId: 'bob' }), res);
+
+      const history = runtime.getStateHistory({ component: 'counter' });
+      expect(history.map(change => change.to)).toEqual([{ count: 1 }, { count: 2 }, { count: 1 }]);
+    });
+
+    it('should share global state across all requests', async () => {
+      counter.stateScope = 'global';
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(counter, request({}), res);
+      await runtime.handleAction(counter, request({}), res);
+
+      const history = runtime.getStateHistory({ component: 'counter' });
+      expect(history[1].to).toEqual({ count: 2 });
+    });
+
+    it('should render with the session state slice', async () => {
+      const req = request({ componentState: { counter: { count: 5 } } });
+      const html = await runtime.render(counter, { title: 'Counter', state: null, csrfToken: 'token' }, req);
+      expect(html).toContain('Count: 5');
+    });
+
+    describe('with express-session', () => {
+      async function countAfterIncrements(times: number): Promise<string[]> {
+        const app = express();
+        app.use(session({ secret: 'test', resave: false, saveUninitialized: false }));
+        app.get('/', async (req, res) => {
+          res.send(await runtime.render(counter, { title: 'Counter', state: null, csrfToken: 'token' }, req));
+        });
+        runtime.mount(app);
+
+        const server = app.listen(0);
+        const base = `http://localhost:${(server.address() as AddressInfo).port}`;
+        const counts: string[] = [];
+        let cookie = '';
+
+        try {
+          for (let i = 0; i < times; i++) {
+            const posted = await fetch(`${base}/counter/increment`, {
+              method: 'POST',
+              headers: { cookie },
+              redirect: 'manual'
+            });
+            cookie = posted.headers.get('set-cookie')?.split(';')[0] || cookie;
+
+            const page = await (await fetch(base, { headers: { cookie } })).text();
+            counts.push(page.match(/Count: (-?\d+)/)?.[1] || '');
+          }
+        } finally {
+          await new Promise(resolve => server.close(resolve));
+        }
+        return counts;
+      }
+
+      it('should store the state before the redirect is answered', async () => {
+        expect(await countAfterIncrements(3)).toEqual(['1', '2', '3']);
+      });
+
+      it('should store state the component replaced', async () => {
+        jest.spyOn(counter, 'handleAction').mockImplementation(async (_req, res) => {
+          setScopedState(counter, { count: counter.getState().count + 1 });
+          res.redirect('/');
+        });
+
+        expect(await countAfterIncrements(2)).toEqual(['1', '2']);
+      });
+    });
+
+    it('should require a session for session-scoped components', async () => {
+      const req = { path: '/counter/increment', method: 'POST', body: {} } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await expect(runtime.handleAction(counter, req, res)).rejects.toThrow(RuntimeError);
+    });
+  });
+
+  describe('State Persistence', () => {
+    afterEach(async () => {
+      await PersistenceFactory.removeAll();
+    });
+
+    function createCounter(persistence: ServerComponent['persistence'] = { type: 'memory', database: 'test' }): ServerComponent {
+      const counter: ServerComponent = new CounterComponent();
+      counter.stateScope = 'global';
+      counter.persistence = persistence;
+      return counter;
+    }
+
+    it('should load and save state through the persistence adapter', async () => {
+      const counter = createCounter();
+      runtime.registerComponent('counter', counter);
+      const req = { path: '/counter/increment', method: 'POST', body: {} } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(counter, req, res);
+      await runtime.handleAction(counter, req, res);
+
+      const adapter = await PersistenceFactory.getAdapter('component:counter');
+      expect(await adapter?.load('counter')).toEqual({ count: 2 });
+    });
+
+    it('should save the state before the response ends', async () => {
+      const counter = createCounter();
+      runtime.registerComponent('counter', counter);
+      const req = { path: '/counter/increment', method: 'POST', body: {} } as Request;
+      const saved: unknown[] = [];
+      const res = {
+        redirect: jest.fn(() => res.end()),
+        end: jest.fn(async () => {
+          const adapter = await PersistenceFactory.getAdapter('component:counter');
+          saved.push(await adapter?.load('counter'));
+        })
+      } as unknown as Response;
+
+      await runtime.handleAction(counter, req, res);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(saved).toEqual([{ count: 1 }]);
+    });
+
+    it('should reject concurrent updates to the same record', async () => {
+      const counter = createCounter();
+      runtime.registerComponent('counter', counter);
+      const req = { path: '/counter/increment', method: 'POST', body: {} } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+      await runtime.handleAction(counter, req, res);
+
+      const results = await Promise.allSettled([
+        runtime.handleAction(counter, req, res),
+        runtime.handleAction(counter, req, res)
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(RevisionConflictError);
+      const adapter = await PersistenceFactory.getAdapter('component:counter');
+      expect(await adapter?.load('counter')).toEqual({ count: 2 });
+    });
+
+    it('should restore persisted state in a new runtime', async () => {
+      const tempDir = await fs.mkdtemp(join(os.tmpdir(), 'aiframe-test-'));
+      const persistence = { type: 'sqlite' as const, database: 'test', filename: join(tempDir, 'state.db') };
+      const req = { path: '/counter/increment', method: 'POST', body: {} } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      try {
+        const first = createCounter(persistence);
+        runtime.registerComponent('counter', first);
+        await runtime.handleAction(first, req, res);
+        // Drop the adapter so the restarted runtime reads the file afresh
+        await PersistenceFactory.removeAll();
+
+        const restarted = new Runtime(join(__dirname, '../templates'));
+        const second = createCounter(persistence);
+        restarted.registerComponent('counter', second);
+        await restarted.handleAction(second, req, res);
+
+        expect(restarted.getStateHistory()[0].to).toEqual({ count: 2 });
+      } finally {
+        await PersistenceFactory.removeAll();
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should call component load and persist hooks around actions', async () => {
+      const calls: string[] = [];
+      const hooked: ServerComponent = component;
+      hooked.loadState = async () => { calls.push('load'); };
+      hooked.persistState = async () => { calls.push('persist'); };
+      jest.spyOn(component, 'handleAction').mockImplementation(async () => { calls.push('action'); });
+
+      const req = { path: '/test/increment', method: 'POST', body: {} } as Request;
+      await runtime.handleAction(component, req, {} as Response);
+
+      expect(calls).toEqual(['load', 'action', 'persist']);
+    });
+  });
+
+  describe('Route Mounting', () => {
+    function createRouter() {
+      return {
+        get: jest.fn(),
+        post: jest.fn()
+      };
+    }
+
+    it('should build routes from declared user actions', () => {
+      runtime.registerComponent('test', component);
+
+      const routes = runtime.getRoutes();
+      expect(routes.map(r => r.path)).toEqual(['/test/increment', '/test/value']);
+      expect(routes[0].component).toBe(component);
+      expect(routes[0].intent).toBe(testIntent);
+      expect(routes[0].methods).toEqual(['POST']);
+    });
+
+    it('should mount routes on the router', () => {
+      runtime.registerComponent('test', component);
+      const router = createRouter();
+
+      runtime.mount(router as unknown as IRouter);
+
+      expect(router.get).not.toHaveBeenCalled();
+      expect(router.post).toHaveBeenCalledTimes(2);
+      expect(router.post.mock.calls.map(call => call[0])).toEqual([
+        '/test/increment',
+        '/test/value'
+      ]);
+    });
+
+    it('should dispatch mounted routes to the component', async () => {
+      runtime.registerComponent('test', component);
+      const router = createRouter();
+      runtime.mount(router as unknown as IRouter);
+
+      const handler = router.post.mock.calls[0][1];
+      const req = { path: '/test/increment', method: 'POST', body: {} } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+      const next = jest.fn();
+
+      await handler(req, res, next);
+
+      expect(component.getState().count).toBe(1);
+      expect(res.redirect).toHaveBeenCalledWith('/');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass action errors to next', async () => {
+      const error = new Error('Action failed');
+      jest.spyOn(component, 'handleAction').mockRejectedValue(error);
+      runtime.registerComponent('test', component);
+      const router = createRouter();
+      runtime.mount(router as unknown as IRouter);
+
+      const handler = router.post.mock.calls[0][1];
+      const next = jest.fn();
+      await handler({} as Request, {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+
+    it('should reject paths declared by different components', () => {
+      const other: ServerComponent = {
+        intent: { ...testIntent, name: 'other' },
+        render: async () => '',
+        handleAction: async () => undefined,
+        getState: () => null
+      };
+      runtime.registerComponent('test', component);
+      runtime.registerComponent('other', other);
+
+      expect(() => runtime.getRoutes()).toThrow(RuntimeError);
+    });
+  });
+
   describe('State History', () => {
     it('should maintain state change history', () => {
       const history = runtime.getStateHistory();
       expect(Array.isArray(history)).toBe(true);
     });
+
+    it('should record state changes for handled actions', async () => {
+      runtime.registerComponent('test', component);
+      const req = {
+        path: '/test/increment',
+        method: 'POST',
+        body: {},
+        sessionID: 'session-1'
+      } as Request;
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(component, req, res);
+
+      const history = runtime.getStateHistory();
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({
+        from: { value: '', count: 0 },
+        to: { value: '', count: 1 },
+        action: testIntent.userActions[0],
+        component: 'test',
+        sessionId: 'session-1'
+      });
+    });
+
+    it('should keep recorded states when nested state changes in place', async () => {
+      const state = { items: [] as string[] };
+      const nested: ServerComponent = {
+        intent: testIntent,
+        render: async () => '',
+        getState: () => state,
+        handleAction: async (_req, res) => {
+          state.items.push('item');
+          res.redirect('/');
+        }
+      };
+      runtime.registerComponent('test', nested);
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(nested, { path: '/test/increment', method: 'POST', body: {} } as Request, res);
+      await runtime.handleAction(nested, { path: '/test/increment', method: 'POST', body: {} } as Request, res);
+
+      const history = runtime.getStateHistory();
+      expect(history[0]).toMatchObject({ from: { items: [] }, to: { items: ['item'] } });
+      expect(history[1]).toMatchObject({ from: { items: ['item'] }, to: { items: ['item', 'item'] } });
+    });
+
+    it('should query history by component and action', async () => {
+      runtime.registerComponent('test', component);
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      await runtime.handleAction(component, { path: '/test/increment', method: 'POST', body: {} } as Request, res);
+      await runtime.handleAction(component, { path: '/test/value', method: 'POST', body: { value: 'a' } } as Request, res);
+
+      expect(runtime.getStateHistory({ component: 'test' })).toHaveLength(2);
+      expect(runtime.getStateHistory({ action: 'setValue' })).toHaveLength(1);
+      expect(runtime.getStateHistory({ component: 'other' })).toHaveLength(0);
+    });
+
+    it('should bound history per component and session', async () => {
+      runtime = new Runtime(join(__dirname, '../templates'), { historyLimit: 2 });
+      runtime.registerComponent('test', component);
+      const res = { redirect: jest.fn() } as unknown as Response;
+
+      for (let i = 0; i < 3; i++) {
+        await runtime.handleAction(component, { path: '/test/increment', method: 'POST', body: {} } as Request, res);
+      }
+
+      const history = runtime.getStateHistory();
+      expect(history).toHaveLength(2);
+      expect(history[1].to).toEqual({ value: '', count: 3 });
+    });
   });
 }); 
\ No newline at end of file
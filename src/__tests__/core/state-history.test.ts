@@ -0,0 +1,59 @@
+import { StateHistory } from '../../core/state-history';
+import { StateChange, UserAction } from '../../core/types';
+import { testIntent } from '../utils/test-component';
+
+describe('StateHistory', () => {
+  const [increment, setValue] = testIntent.userActions;
+
+  function change(action: UserAction, timestamp: number, component = 'test', sessionId?: string): StateChange {
+    return { timestamp, from: {}, to: {}, action, component, sessionId };
+  }
+
+  it('should return changes ordered by time', () => {
+    const history = new StateHistory();
+    history.record(change(increment, 2, 'test', 'b'));
+    history.record(change(increment, 1, 'test', 'a'));
+
+    expect(history.query().map(c => c.timestamp)).toEqual([1, 2]);
+  });
+
+  it('should keep only the latest changes per component and session', () => {
+    const history = new StateHistory(2);
+    history.record(change(increment, 1, 'test', 'a'));
+    history.record(change(increment, 2, 'test', 'a'));
+    history.record(change(increment, 3, 'test', 'a'));
+    history.record(change(increment, 4, 'test', 'b'));
+
+    expect(history.query({ sessionId: 'a' }).map(c => c.timestamp)).toEqual([2, 3]);
+    expect(history.query({ sessionId: 'b' })).toHaveLength(1);
+  });
+
+  it('should drop the least recently updated session once too many have history', () => {
+    const history = new StateHistory(10, 2);
+    history.record(change(increment, 1, 'test', 'a'));
+    history.record(change(increment, 2, 'test', 'b'));
+    history.record(change(increment, 3, 'test', 'a'));
+    history.record(change(increment, 4, 'test', 'c'));
+
+    expect(history.query().map(c => c.sessionId)).toEqual(['a', 'a', 'c']);
+  });
+
+  it('should filter by component, action and time range', () => {
+    const history = new StateHistory();
+    history.record(change(increment, 1, 'test'));
+    history.record(change(setValue, 2, 'test'));
+    history.record(change(increment, 3, 'other'));
+
+    expect(history.query({ component: 'other' }).map(c => c.timestamp)).toEqual([3]);
+    expect(history.query({ action: 'setValue' }).map(c => c.timestamp)).toEqual([2]);
+    expect(history.query({ since: 2, until: 3 }).map(c => c.timestamp)).toEqual([2, 3]);
+  });
+
+  it('should clear all changes', () => {
+    const history = new StateHistory();
+    history.record(change(increment, 1));
+    history.clear();
+
+    expect(history.query()).toEqual([]);
+  });
+});
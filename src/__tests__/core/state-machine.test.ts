@@ -0,0 +1,65 @@
+import { InvalidTransitionError, StateMachine } from '../../core/state-machine';
+import { workflowStateMachine } from '../utils/workflow-component';
+
+describe('StateMachine', () => {
+  let machine: StateMachine;
+
+  beforeEach(() => {
+    machine = new StateMachine(workflowStateMachine);
+  });
+
+  describe('Definition', () => {
+    it('should expose states and initial state', () => {
+      expect(machine.states).toEqual(['draft', 'submitted', 'approved']);
+      expect(machine.initial).toBe('draft');
+    });
+
+    it('should reject transitions to undeclared states', () => {
+      expect(() => new StateMachine({
+        ...workflowStateMachine,
+        states: ['draft', 'submitted']
+      })).toThrow('Unknown states in state machine: approved');
+    });
+  });
+
+  describe('Transitions', () => {
+    it('should allow declared transitions', () => {
+      expect(machine.can('draft', 'submit')).toBe(true);
+      expect(machine.transition('draft', 'submit')).toBe('submitted');
+    });
+
+    it('should reject actions not allowed from the current state', () => {
+      expect(machine.can('approved', 'submit')).toBe(false);
+      expect(() => machine.transition('approved', 'submit')).toThrow(InvalidTransitionError);
+    });
+
+    it('should not govern actions outside the machine', () => {
+      expect(machine.governs('view')).toBe(false);
+      expect(machine.can('approved', 'view')).toBe(true);
+      expect(machine.transition('approved', 'view')).toBe('approved');
+    });
+
+    it('should list allowed transitions from a state', () => {
+      const allowed = machine.getAllowedTransitions('submitted');
+      expect(allowed.map(t => t.via.name)).toEqual(['approve']);
+    });
+  });
+
+  describe('Graphs', () => {
+    it('should render a DOT graph', () => {
+      const dot = machine.toDot('workflow');
+      expect(dot).toContain('digraph "workflow" {');
+      expect(dot).toContain('"__start" -> "draft";');
+      expect(dot).toContain('"draft" -> "submitted" [label="submit"];');
+    });
+
+    it('should render a Mermaid diagram', () => {
+      expect(machine.toMermaid()).toBe([
+        'stateDiagram-v2',
+        '  [*] --> draft',
+        '  draft --> submitted: submit',
+        '  submitted --> approved: approve'
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ValidationError, validateParameters } from '../../core/validation';
+import { UserAction } from '../../core/types';
+
+describe('validateParameters', () => {
+  const action: UserAction = {
+    name: 'update',
+    description: 'Update a record',
+    method: 'POST',
+    path: '/records/update',
+    parameters: [
+      { name: 'title', type: 'string', description: 'Title', required: true },
+      { name: 'count', type: 'number', description: 'Count', required: false },
+      { name: 'published', type: 'boolean', description: 'Published', required: false },
+      { name: 'tags', type: 'array', description: 'Tags', required: false }
+    ],
+    expectedOutcome: 'Record is updated'
+  };
+
+  it('should coerce values to their declared types', () => {
+    const values = validateParameters(action, {
+      title: 'Hello',
+      count: '42',
+      published: 'on',
+      tags: 'news'
+    });
+
+    expect(values).toEqual({
+      title: 'Hello',
+      count: 42,
+      published: true,
+      tags: ['news']
+    });
+  });
+
+  it('should skip missing optional parameters', () => {
+    const values = validateParameters(action, { title: 'Hello', count: '' });
+    expect(values).toEqual({ title: 'Hello' });
+  });
+
+  it('should report missing required parameters', () => {
+    expect(() => validateParameters(action, {})).toThrow(ValidationError);
+  });
+
+  it('should treat whitespace-only values as missing', () => {
+    const required: UserAction = {
+      ...action,
+      parameters: [
+        { name: 'title', type: 'string', description: 'Title', required: true },
+        { name: 'count', type: 'number', description: 'Count', required: true }
+      ]
+    };
+
+    expect(() => validateParameters(required, { title: '  ', count: ' \t' })).toThrow(
+      'Invalid parameters for update: title is required; count is required'
+    );
+    expect(validateParameters(action, { title: 'Hello', count: '  ' })).toEqual({ title: 'Hello' });
+  });
+
+  it('should collect every invalid parameter', () => {
+    try {
+      validateParameters(action, { count: 'abc', published: 'maybe' });
+      fail('Expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).errors).toEqual([
+        { parameter: 'title', message: 'title is required' },
+        { parameter: 'count', message: 'count must be a number' },
+        { parameter: 'published', message: 'published must be a boolean' }
+      ]);
+    }
+  });
+
+  it('should pass through parameters of unknown type', () => {
+    const custom: UserAction = {
+      ...action,
+      parameters: [{ name: 'payload', type: 'Record<string, unknown>', description: 'Payload', required: true }]
+    };
+    const payload = { nested: true };
+
+    expect(validateParameters(custom, { payload })).toEqual({ payload });
+  });
+});
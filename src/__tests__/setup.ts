@@ -14,6 +14,10 @@ declare global {
   }
 }
 
+// Only a configured POSTGRES_HOST (as in CI) means a server is there to set up;
+// everything else runs on SQLite or the memory adapter
+const usePostgres = Boolean(process.env.POSTGRES_HOST);
+
 // Configure test environment
 process.env.POSTGRES_HOST = process.env.POSTGRES_HOST || 'localhost';
 process.env.POSTGRES_PORT = process.env.POSTGRES_PORT || '5432';
@@ -22,8 +26,7 @@ process.env.POSTGRES_USER = process.env.POSTGRES_USER || 'postgres';
 process.env.POSTGRES_PASSWORD = process.env.POSTGRES_PASSWORD || 'postgres';
 process.env.SQLITE_FILE = process.env.SQLITE_FILE || ':memory:';
 
-// Create test database
-beforeAll(async () => {
+async function createPostgresDatabase(): Promise<void> {
   // Connect to default database to create test database
   const rootPool = new Pool({
     host: process.env.POSTGRES_HOST,
@@ -50,6 +53,13 @@ beforeAll(async () => {
   } finally {
     await rootPool.end();
   }
+}
+
+// Create test database
+beforeAll(async () => {
+  if (usePostgres) {
+    await createPostgresDatabase();
+  }
 
   // Set up test templates directory
   const templatesDir = path.join(__dirname, '..', 'templates');
@@ -0,0 +1,61 @@
+import {
+  AppendOptions,
+  EventHandler,
+  EventStore,
+  StateEvent,
+  StateSnapshot,
+  SubscribeOptions,
+  Subscription
+} from '../../core/types';
+import { ConcurrencyError } from '../../core/persistence/errors';
+import { EventSubscription } from '../../core/persistence/event-subscription';
+
+export class MemoryEventStore implements EventStore {
+  readonly streams = new Map<string, StateEvent[]>();
+  readonly snapshots = new Map<string, StateSnapshot>();
+  private log: StateEvent[] = [];
+
+  async append(streamId: string, events: StateEvent[], options: AppendOptions = {}): Promise<void> {
+    const stream = this.streams.get(streamId) || [];
+    const currentVersion = stream.length - 1;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+      throw new ConcurrencyError(streamId, options.expectedVersion, currentVersion);
+    }
+    for (const event of events) {
+      const stored: StateEvent = {
+        ...event,
+        metadata: { ...event.metadata, version: stream.length },
+        streamId,
+        position: this.log.length + 1
+      };
+      stream.push(stored);
+      this.log.push(stored);
+    }
+    this.streams.set(streamId, stream);
+  }
+
+  async read(streamId: string, fromVersion = 0): Promise<StateEvent[]> {
+    return (this.streams.get(streamId) || []).filter(e => e.metadata.version >= fromVersion);
+  }
+
+  async readAll(fromPosition = 0, limit = 100): Promise<StateEvent[]> {
+    return this.log.slice(fromPosition, fromPosition + limit);
+  }
+
+  subscribe(streamPattern: string | RegExp, handler: EventHandler, options?: SubscribeOptions): Subscription {
+    return new EventSubscription(
+      (fromPosition, limit) => this.readAll(fromPosition, limit),
+      streamPattern,
+      handler,
+      options
+    ).start();
+  }
+
+  async getSnapshot(streamId: string): Promise<StateSnapshot | null> {
+    return this.snapshots.get(streamId) || null;
+  }
+
+  async saveSnapshot(streamId: string, snapshot: StateSnapshot): Promise<void> {
+    this.snapshots.set(streamId, snapshot);
+  }
+}
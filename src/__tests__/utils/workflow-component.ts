@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { ServerComponent, Intent, StateMachineDefinition, UserAction, ViewData } from '../../core/types';
+
+export type WorkflowStatus = 'draft' | 'submitted' | 'approved';
+
+export interface WorkflowState {
+  status: WorkflowStatus;
+}
+
+const submit: UserAction = {
+  name: 'submit',
+  description: 'Submit the form for review',
+  method: 'POST',
+  path: '/workflow/submit',
+  expectedOutcome: 'Form is submitted'
+};
+
+const approve: UserAction = {
+  name: 'approve',
+  description: 'Approve the submitted form',
+  method: 'POST',
+  path: '/workflow/approve',
+  expectedOutcome: 'Form is approved'
+};
+
+const view: UserAction = {
+  name: 'view',
+  description: 'View the form',
+  method: 'GET',
+  path: '/workflow',
+  expectedOutcome: 'Form is displayed'
+};
+
+export const workflowIntent: Intent = {
+  name: 'workflow',
+  description: 'A test approval workflow',
+  capabilities: ['submit', 'approve'],
+  dataStructure: {
+    status: 'string'
+  },
+  userActions: [view, submit, approve]
+};
+
+export const workflowStateMachine: StateMachineDefinition = {
+  states: ['draft', 'submitted', 'approved'],
+  initial: 'draft',
+  transitions: [
+    { from: 'draft', to: 'submitted', via: submit },
+    { from: 'submitted', to: 'approved', via: approve }
+  ],
+  getCurrent: state => (state as WorkflowState).status
+};
+
+export class WorkflowComponent implements ServerComponent {
+  intent = workflowIntent;
+  stateMachine = workflowStateMachine;
+  private state: WorkflowState = { status: 'draft' };
+
+  async render(data: ViewData): Promise<string> {
+    return `<div class="workflow">Status: ${this.state.status}</div>`;
+  }
+
+  async handleAction(req: Request, res: Response): Promise<void> {
+    const action = req.path.split('/').pop();
+
+    switch (action) {
+      case 'submit':
+        this.state.status = 'submitted';
+        break;
+      case 'approve':
+        this.state.status = 'approved';
+        break;
+    }
+
+    res.redirect('/workflow');
+  }
+
+  getState(): WorkflowState {
+    return { ...this.state };
+  }
+}
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { EventStore, Intent, ServerComponent, StateEvent, StateScope, ViewData } from './types';
+import { getScopedState, hasScopedState, setScopedState } from './state-scope';
+
+export type EventReducer<S> = (state: S, event: StateEvent) => S;
+
+export interface EventSourcedOptions {
+  streamId: string;
+  // Take a snapshot after this many events since the last one
+  snapshotEvery?: number;
+}
+
+interface LoadedStream<S> {
+  state: S;
+  version: number;
+  eventsSinceSnapshot: number;
+}
+
+export abstract class EventSourcedComponent<S> implements ServerComponent {
+  abstract intent: Intent;
+  protected abstract reducers: Record<string, EventReducer<S>>;
+  // Each runtime request keeps the stream as it loaded it, so concurrent
+  // requests append against the version they actually read
+  stateScope: StateScope = 'request';
+
+  protected readonly streamId: string;
+  private readonly snapshotEvery: number;
+  // The newest stream seen by any caller, for use outside a request
+  private latest: LoadedStream<S>;
+
+  constructor(
+    protected readonly eventStore: EventStore,
+    options: EventSourcedOptions
+  ) {
+    this.streamId = options.streamId;
+    this.snapshotEvery = options.snapshotEvery || 50;
+    this.latest = { state: this.initialState(), version: -1, eventsSinceSnapshot: 0 };
+  }
+
+  abstract initialState(): S;
+  abstract render(data: ViewData): Promise<string>;
+  abstract handleAction(req: Request, res: Response): Promise<void>;
+
+  getState(): S {
+    return this.stream.state;
+  }
+
+  getVersion(): number {
+    return this.stream.version;
+  }
+
+  // Rebuild state from the latest snapshot plus the events recorded after it
+  async loadState(): Promise<void> {
+    const snapshot = await this.eventStore.getSnapshot(this.streamId);
+    let state = snapshot ? snapshot.state as S : this.initialState();
+    let version = snapshot ? snapshot.version : -1;
+
+    const events = await this.eventStore.read(this.streamId, version + 1);
+    for (const event of events) {
+      state = this.apply(state, event);
+      version = event.metadata.version;
+    }
+
+    this.stream = { state, version, eventsSinceSnapshot: events.length };
+  }
+
+  // Full audit trail of the stream
+  async getEvents(): Promise<StateEvent[]> {
+    return this.eventStore.read(this.streamId);
+  }
+
+  protected async emit(type: string, data: unknown, userId?: string): Promise<StateEvent> {
+    if (!this.reducers[type]) {
+      throw new Error(`No reducer registered for event type: ${type}`);
+    }
+
+    const loaded = this.stream;
+    const event: StateEvent = {
+      type,
+      data,
+      metadata: {
+        timestamp: Date.now(),
+        version: loaded.version + 1,
+        ...(userId ? { userId } : {})
+      }
+    };
+
+    // Fails with a ConcurrencyError if another writer appended since we loaded;
+    // callers can loadState() and retry
+    await this.eventStore.append(this.streamId, [event], { expectedVersion: loaded.version });
+    const stream = {
+      state: this.apply(loaded.state, event),
+      version: event.metadata.version,
+      eventsSinceSnapshot: loaded.eventsSinceSnapshot + 1
+    };
+    this.stream = stream;
+
+    if (stream.eventsSinceSnapshot >= this.snapshotEvery) {
+      await this.eventStore.saveSnapshot(this.streamId, {
+        state: stream.state,
+        version: stream.version,
+        timestamp: Date.now()
+      });
+      this.stream = { ...stream, eventsSinceSnapshot: 0 };
+    }
+
+    return event;
+  }
+
+  // The stream as the current request loaded it, or the newest one outside a request
+  private get stream(): LoadedStream<S> {
+    if (hasScopedState(this)) {
+      return getScopedState<LoadedStream<S> | undefined>(this) || this.latest;
+    }
+    return this.latest;
+  }
+
+  private set stream(stream: LoadedStream<S>) {
+    if (hasScopedState(this)) {
+      setScopedState(this, stream);
+    }
+    // A slow load must not put back state that others have moved past
+    if (stream.version >= this.latest.version) {
+      this.latest = stream;
+    }
+  }
+
+  private apply(state: S, event: StateEvent): S {
+    const reducer = this.reducers[event.type];
+    // Events without a reducer (e.g. retired event types) leave state unchanged
+    return reducer ? reducer(state, event) : state;
+  }
+}
@@ -0,0 +1,22 @@
+import { ScanOptions } from '../types';
+
+const DEFAULT_SCAN_BATCH_SIZE = 100;
+
+// A multi-row write can't apply the same key twice in a defined order
+export function assertUniqueKeys(keys: string[]): void {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (seen.has(key)) {
+      throw new Error(`Duplicate key in bulk write: ${key}`);
+    }
+    seen.add(key);
+  }
+}
+
+export function scanBatchSize(options: ScanOptions): number {
+  const batchSize = options.batchSize ?? DEFAULT_SCAN_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error('batchSize must be a positive integer');
+  }
+  return batchSize;
+}
@@ -0,0 +1,72 @@
+import { SchemaIssue } from './schema';
+
+export class ConcurrencyError extends Error {
+  constructor(
+    public readonly streamId: string,
+    public readonly expectedVersion: number | undefined,
+    public readonly actualVersion: number
+  ) {
+    super(
+      expectedVersion === undefined
+        ? `Stream ${streamId} was modified concurrently`
+        : `Stream ${streamId} is at version ${actualVersion}, expected ${expectedVersion}`
+    );
+    this.name = 'ConcurrencyError';
+  }
+}
+
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+export class LockTimeoutError extends Error {
+  constructor(public readonly lockPath: string, timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for lock ${lockPath}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+export class TransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+export class RevisionConflictError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly expectedRevision: number,
+    public readonly actualRevision: number | null
+  ) {
+    super(
+      actualRevision === null
+        ? `Record ${key} does not exist, expected revision ${expectedRevision}`
+        : `Record ${key} is at revision ${actualRevision}, expected ${expectedRevision}`
+    );
+    this.name = 'RevisionConflictError';
+  }
+}
+
+export class SchemaValidationError extends Error {
+  constructor(
+    public readonly issues: SchemaIssue[],
+    public readonly key?: string
+  ) {
+    super(
+      `${key === undefined ? 'Record' : `Record ${key}`} does not match its schema: ` +
+      issues.map(issue => issue.message).join('; ')
+    );
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export class IdentifierError extends Error {
+  constructor(public readonly kind: string, public readonly identifier: unknown) {
+    super(`Invalid ${kind} name: ${JSON.stringify(identifier)}`);
+    this.name = 'IdentifierError';
+  }
+}
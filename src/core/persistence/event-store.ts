@@ -1,21 +1,45 @@
 import { Pool, PoolClient } from 'pg';
-import { StateEvent, StateSnapshot } from '../types';
+import { AppendOptions, EventHandler, StateEvent, StateSnapshot, SubscribeOptions, Subscription } from '../types';
+import { ConnectionRegistry } from './connections';
+import { ConcurrencyError } from './errors';
+import { quoteIdentifier } from './identifiers';
+import { EventSubscription } from './event-subscription';
+import { UpcasterRegistry, schemaVersionFor } from './upcasting';
+
+// PostgreSQL unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// pg parses the JSONB columns
+interface EventRow {
+  id: number;
+  stream_id: string;
+  type: string;
+  data: unknown;
+  metadata: StateEvent['metadata'];
+}
 
 export class EventStore {
   private pool: Pool;
+  // Quoted for use in SQL
+  private readonly schema: string;
   private isInitialized = false;
+  private subscriptions = new Set<EventSubscription>();
 
   constructor(
     private readonly config: {
+      // postgres:// connection string; replaces the fields below
+      url?: string;
       host?: string;
       port?: number;
-      database: string;
+      database?: string;
       user?: string;
       password?: string;
       schema?: string;
+      upcasters?: UpcasterRegistry;
     }
   ) {
-    this.pool = new Pool({
+    this.schema = quoteIdentifier(config.schema || 'public', 'schema');
+    this.pool = ConnectionRegistry.acquirePool(config.url || {
       host: config.host || 'localhost',
       port: config.port || 5432,
       database: config.database,
@@ -27,16 +51,15 @@ export class EventStore {
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    const schema = this.config.schema || 'public';
     const client = await this.pool.connect();
 
     try {
       // Create schema if it doesn't exist
-      await client.query(`CREATE SCHEMA IF NOT EXISTS ${schema};`);
+      await client.query(`CREATE SCHEMA IF NOT EXISTS ${this.schema};`);
 
       // Create events table
       await client.query(`
-        CREATE TABLE IF NOT EXISTS ${schema}.events (
+        CREATE TABLE IF NOT EXISTS ${this.schema}.events (
           id SERIAL PRIMARY KEY,
           stream_id TEXT NOT NULL,
           version INTEGER NOT NULL,
@@ -50,7 +73,7 @@ export class EventStore {
 
       // Create snapshots table
       await client.query(`
-        CREATE TABLE IF NOT EXISTS ${schema}.snapshots (
+        CREATE TABLE IF NOT EXISTS ${this.schema}.snapshots (
           stream_id TEXT PRIMARY KEY,
           version INTEGER NOT NULL,
           state JSONB NOT NULL,
@@ -61,7 +84,7 @@ export class EventStore {
       // Create indexes
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_events_stream_version 
-        ON ${schema}.events(stream_id, version);
+        ON ${this.schema}.events(stream_id, version);
       `);
 
       this.isInitialized = true;
@@ -71,31 +94,43 @@ export class EventStore {
   }
 
   async disconnect(): Promise<void> {
-    await this.pool.end();
+    for (const subscription of Array.from(this.subscriptions)) {
+      await subscription.stop();
+    }
+    await ConnectionRegistry.releasePool(this.pool);
   }
 
-  async append(streamId: string, events: StateEvent[]): Promise<void> {
+  async append(streamId: string, events: StateEvent[], options: AppendOptions = {}): Promise<void> {
     await this.initialize();
-    const schema = this.config.schema || 'public';
-
-    // Get the current version
-    const versionResult = await this.pool.query(
-      `SELECT COALESCE(MAX(version), -1) as max_version 
-       FROM ${schema}.events 
-       WHERE stream_id = $1`,
-      [streamId]
-    );
-    const startVersion = versionResult.rows[0].max_version + 1;
+    const client = await this.pool.connect();
+    let currentVersion = -1;
 
-    // Insert events in a transaction
-    await this.pool.query('BEGIN');
+    // Read the current version and insert in a single transaction on one client
     try {
+      await client.query('BEGIN');
+
+      // Appends take turns until commit, so SERIAL ids become visible in order
+      // and readAll never finds a lower id behind one it already returned
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${this.schema}.events`]);
+
+      const versionResult = await client.query(
+        `SELECT COALESCE(MAX(version), -1) as max_version 
+         FROM ${this.schema}.events 
+         WHERE stream_id = $1`,
+        [streamId]
+      );
+      currentVersion = versionResult.rows[0].max_version;
+
+      if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+        throw new ConcurrencyError(streamId, options.expectedVersion, currentVersion);
+      }
+
       for (let i = 0; i < events.length; i++) {
         const event = events[i];
-        const version = startVersion + i;
+        const version = currentVersion + 1 + i;
 
-        await this.pool.query(
-          `INSERT INTO ${schema}.events 
+        await client.query(
+          `INSERT INTO ${this.schema}.events 
            (stream_id, version, type, data, metadata)
            VALUES ($1, $2, $3, $4, $5)`,
           [
@@ -103,43 +138,92 @@ export class EventStore {
             version,
             event.type,
             event.data,
-            { ...event.metadata, version }
+            {
+              ...event.metadata,
+              version,
+              schemaVersion: schemaVersionFor(event, this.config.upcasters)
+            }
           ]
         );
       }
-      await this.pool.query('COMMIT');
+      await client.query('COMMIT');
     } catch (error) {
-      await this.pool.query('ROLLBACK');
+      await client.query('ROLLBACK');
+      // Another writer inserted the same version between our read and insert
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new ConcurrencyError(streamId, options.expectedVersion, currentVersion);
+      }
       throw error;
+    } finally {
+      client.release();
     }
+
+    this.subscriptions.forEach(subscription => subscription.notify());
   }
 
   async read(streamId: string, fromVersion = 0): Promise<StateEvent[]> {
     await this.initialize();
-    const schema = this.config.schema || 'public';
 
-    const result = await this.pool.query(
-      `SELECT type, data, metadata
-       FROM ${schema}.events
+    const result = await this.pool.query<EventRow>(
+      `SELECT id, stream_id, type, data, metadata
+       FROM ${this.schema}.events
        WHERE stream_id = $1 AND version >= $2
        ORDER BY version ASC`,
       [streamId, fromVersion]
     );
 
-    return result.rows.map(row => ({
+    return result.rows.map(row => this.toEvent(row));
+  }
+
+  // The SERIAL id gives the global order; append commits ids in order
+  async readAll(fromPosition = 0, limit = 100): Promise<StateEvent[]> {
+    await this.initialize();
+
+    const result = await this.pool.query<EventRow>(
+      `SELECT id, stream_id, type, data, metadata
+       FROM ${this.schema}.events
+       WHERE id > $1
+       ORDER BY id ASC
+       LIMIT $2`,
+      [fromPosition, limit]
+    );
+
+    return result.rows.map(row => this.toEvent(row));
+  }
+
+  subscribe(
+    streamPattern: string | RegExp,
+    handler: EventHandler,
+    options: SubscribeOptions = {}
+  ): Subscription {
+    const subscription: EventSubscription = new EventSubscription(
+      (fromPosition, limit) => this.readAll(fromPosition, limit),
+      streamPattern,
+      handler,
+      options,
+      () => this.subscriptions.delete(subscription)
+    );
+    this.subscriptions.add(subscription);
+    return subscription.start();
+  }
+
+  private toEvent(row: EventRow): StateEvent {
+    const event: StateEvent = {
       type: row.type,
       data: row.data,
-      metadata: row.metadata
-    }));
+      metadata: row.metadata,
+      streamId: row.stream_id,
+      position: row.id
+    };
+    return this.config.upcasters ? this.config.upcasters.upcast(event) : event;
   }
 
   async getSnapshot(streamId: string): Promise<StateSnapshot | null> {
     await this.initialize();
-    const schema = this.config.schema || 'public';
 
     const result = await this.pool.query(
       `SELECT state, version
-       FROM ${schema}.snapshots
+       FROM ${this.schema}.snapshots
        WHERE stream_id = $1`,
       [streamId]
     );
@@ -155,10 +239,9 @@ export class EventStore {
 
   async saveSnapshot(streamId: string, snapshot: StateSnapshot): Promise<void> {
     await this.initialize();
-    const schema = this.config.schema || 'public';
 
     await this.pool.query(
-      `INSERT INTO ${schema}.snapshots (stream_id, version, state)
+      `INSERT INTO ${this.schema}.snapshots (stream_id, version, state)
        VALUES ($1, $2, $3)
        ON CONFLICT (stream_id)
        DO UPDATE SET version = $2, state = $3, created_at = CURRENT_TIMESTAMP`,
@@ -0,0 +1,117 @@
+import { EventHandler, StateEvent, SubscribeOptions, Subscription } from '../types';
+
+export type ReadAll = (fromPosition: number, limit: number) => Promise<StateEvent[]>;
+
+// Stream patterns are exact stream ids, globs using `*`, or regular expressions
+export function matchesStream(pattern: string | RegExp, streamId: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(streamId);
+  }
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(streamId);
+}
+
+// Polls an event store's global log and hands matching events to a handler in order.
+// A failing handler is reported to onError and retried from the same event on the next poll.
+export class EventSubscription implements Subscription {
+  private current: number;
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+  private readonly onError: (error: unknown, position: number) => void;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private pending = false;
+  private stopped = false;
+
+  constructor(
+    private readonly readAll: ReadAll,
+    private readonly pattern: string | RegExp,
+    private readonly handler: EventHandler,
+    options: SubscribeOptions = {},
+    private readonly onStop?: () => void
+  ) {
+    this.current = options.fromPosition || 0;
+    this.pollInterval = options.pollInterval || 1000;
+    this.batchSize = options.batchSize || 100;
+    this.onError = options.onError || ((error, position) => {
+      console.error(`Subscription to ${pattern} failed at position ${position}:`, error);
+    });
+  }
+
+  get position(): number {
+    return this.current;
+  }
+
+  start(): this {
+    this.schedule(0);
+    return this;
+  }
+
+  // Poll right away, e.g. after an append in this process
+  notify(): void {
+    this.schedule(0);
+  }
+
+  poll(): Promise<void> {
+    if (this.polling) {
+      this.pending = true;
+      return this.polling;
+    }
+
+    this.polling = this.catchUp().finally(() => {
+      this.polling = undefined;
+      if (this.pending) {
+        this.pending = false;
+        this.schedule(0);
+      } else {
+        this.schedule(this.pollInterval);
+      }
+    });
+    return this.polling;
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.polling;
+    this.onStop?.();
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.poll();
+    }, delay);
+    // Don't keep the process alive just to poll
+    this.timer.unref();
+  }
+
+  private async catchUp(): Promise<void> {
+    try {
+      while (!this.stopped) {
+        const events = await this.readAll(this.current, this.batchSize);
+
+        for (const event of events) {
+          if (this.stopped) return;
+          if (event.streamId !== undefined && matchesStream(this.pattern, event.streamId)) {
+            await this.handler(event);
+          }
+          this.current = event.position ?? this.current;
+        }
+
+        if (events.length < this.batchSize) return;
+      }
+    } catch (error) {
+      this.onError(error, this.current);
+    }
+  }
+}
@@ -1,12 +1,24 @@
-import { PersistenceAdapter } from '../types';
+import { PoolConfig } from 'pg';
+import { EventStore, PersistenceAdapter } from '../types';
 import { PostgresAdapter, PostgresAdapterConfig } from './postgres.adapter';
 import { SQLiteAdapter, SQLiteAdapterConfig } from './sqlite.adapter';
+import { MemoryAdapter } from './memory.adapter';
+import { FileAdapter, FileFormat } from './file.adapter';
+import { EventStore as PostgresEventStore } from './event-store';
+import { SQLiteEventStore } from './sqlite.event-store';
+import { UpcasterRegistry } from './upcasting';
+import { SchemaAdapter, SchemaMigration } from './schema.adapter';
+import { RecordSchema, SchemaDefinition } from './schema';
+import { DatabaseConnection, parseDatabaseUrl } from './connections';
 
-export type AdapterType = 'postgres' | 'sqlite';
+export type AdapterType = 'postgres' | 'sqlite' | 'memory' | 'file';
 
 export interface AdapterConfig {
   type: AdapterType;
-  database: string;
+  // Connection string (postgres://..., sqlite:...) used in place of host,
+  // port, user, password, database and filename
+  url?: string;
+  database?: string;
   table?: string;
   schema?: string;
   host?: string;
@@ -14,10 +26,18 @@ export interface AdapterConfig {
   user?: string;
   password?: string;
   filename?: string;
+  directory?: string;
+  format?: FileFormat;
+  // Data paths to index on Postgres and SQLite tables, e.g. ['status', 'owner.id']
+  indexes?: string[];
+  // Checks records on save and load; see SchemaAdapter
+  recordSchema?: RecordSchema | SchemaDefinition;
+  migrate?: SchemaMigration<unknown>;
 }
 
 export class PersistenceFactory {
   private static instances = new Map<string, PersistenceAdapter>();
+  private static eventStores = new Map<string, EventStore>();
 
   static async createAdapter<T = unknown>(
     name: string,
@@ -32,38 +52,131 @@ export class PersistenceFactory {
     switch (config.type) {
       case 'postgres': {
         const pgConfig: PostgresAdapterConfig = {
-          host: config.host || 'localhost',
-          port: config.port || 5432,
-          database: config.database,
-          user: config.user || 'postgres',
-          password: config.password || 'postgres',
+          ...this.postgresConfig(config),
           table: config.table || name,
-          schema: config.schema || 'public'
+          schema: config.schema || 'public',
+          indexes: config.indexes
         };
         adapter = new PostgresAdapter<T>(pgConfig);
         break;
       }
 
       case 'sqlite': {
-        if (!config.filename) {
-          throw new Error('Missing required SQLite configuration: filename');
-        }
         const sqliteConfig: SQLiteAdapterConfig = {
-          filename: config.filename,
-          table: config.table || name
+          filename: this.sqliteFilename(config),
+          table: config.table || name,
+          indexes: config.indexes
         };
         adapter = new SQLiteAdapter<T>(sqliteConfig);
         break;
       }
 
+      case 'memory':
+        adapter = new MemoryAdapter<T>({ table: config.table || name });
+        break;
+
+      case 'file': {
+        if (!config.directory) {
+          throw new Error('Missing required file configuration: directory');
+        }
+        adapter = new FileAdapter<T>({
+          directory: config.directory,
+          table: config.table || name,
+          format: config.format
+        });
+        break;
+      }
+
       default:
         throw new Error(`Unsupported adapter type: ${config.type}`);
     }
 
+    if (config.recordSchema) {
+      adapter = new SchemaAdapter<T>(adapter, {
+        schema: config.recordSchema,
+        migrate: config.migrate as SchemaMigration<T> | undefined
+      });
+    }
+
     this.instances.set(name, adapter);
     return adapter;
   }
 
+  static async createEventStore(
+    name: string,
+    config: AdapterConfig,
+    upcasters?: UpcasterRegistry
+  ): Promise<EventStore> {
+    const existing = this.eventStores.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    let eventStore: EventStore;
+
+    switch (config.type) {
+      case 'postgres':
+        eventStore = new PostgresEventStore({
+          url: config.url,
+          host: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.user,
+          password: config.password,
+          schema: config.schema,
+          upcasters
+        });
+        break;
+
+      case 'sqlite':
+        eventStore = new SQLiteEventStore({ filename: this.sqliteFilename(config), upcasters });
+        break;
+
+      default:
+        throw new Error(`Unsupported event store type: ${config.type}`);
+    }
+
+    this.eventStores.set(name, eventStore);
+    return eventStore;
+  }
+
+  static async getEventStore(name: string): Promise<EventStore | undefined> {
+    return this.eventStores.get(name);
+  }
+
+  private static postgresConfig(config: AdapterConfig): PoolConfig {
+    const connection = this.urlConnection(config);
+    if (connection?.type === 'postgres') {
+      return connection.config;
+    }
+    return {
+      host: config.host || 'localhost',
+      port: config.port || 5432,
+      database: config.database,
+      user: config.user || 'postgres',
+      password: config.password || 'postgres'
+    };
+  }
+
+  private static sqliteFilename(config: AdapterConfig): string {
+    const connection = this.urlConnection(config);
+    const filename = connection?.type === 'sqlite' ? connection.filename : config.filename;
+    if (!filename) {
+      throw new Error('Missing required SQLite configuration: filename');
+    }
+    return filename;
+  }
+
+  private static urlConnection(config: AdapterConfig): DatabaseConnection | undefined {
+    if (!config.url) return undefined;
+
+    const connection = parseDatabaseUrl(config.url);
+    if (connection.type !== config.type) {
+      throw new Error(`A ${connection.type} URL cannot configure a ${config.type} adapter`);
+    }
+    return connection;
+  }
+
   static async getAdapter<T = unknown>(name: string): Promise<PersistenceAdapter<T> | undefined> {
     return this.instances.get(name) as PersistenceAdapter<T> | undefined;
   }
@@ -78,9 +191,22 @@ export class PersistenceFactory {
     }
   }
 
+  static async removeEventStore(name: string): Promise<void> {
+    const eventStore = this.eventStores.get(name);
+    if (eventStore) {
+      if ('disconnect' in eventStore) {
+        await (eventStore as { disconnect(): Promise<void> }).disconnect();
+      }
+      this.eventStores.delete(name);
+    }
+  }
+
   static async removeAll(): Promise<void> {
     for (const [name] of this.instances) {
       await this.removeAdapter(name);
     }
+    for (const [name] of this.eventStores) {
+      await this.removeEventStore(name);
+    }
   }
 } 
\ No newline at end of file
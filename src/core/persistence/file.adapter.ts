@@ -0,0 +1,359 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { PersistenceAdapter, QueryOptions, Revisioned, SaveOptions, ScanOptions, Transaction } from '../types';
+import { assertUniqueKeys, scanBatchSize } from './bulk';
+import { LockTimeoutError, RevisionConflictError, TransactionError } from './errors';
+import { evaluateQuery, isValidFilter, matchingEntries } from './query';
+import { expiryTime, isExpired, validateSaveOptions } from './save-options';
+
+export type FileFormat = 'json' | 'ndjson';
+
+export interface FileAdapterConfig {
+  directory: string;
+  table: string;
+  format?: FileFormat;
+  // How long a write waits for another process to release the lock
+  lockTimeout?: number;
+  // Locks older than this are assumed to be left behind by a crashed process
+  staleLockAge?: number;
+}
+
+const LOCK_RETRY_MS = 25;
+
+interface StoredRecord<T> extends Revisioned<T> {
+  // Epoch milliseconds; omitted for records that never expire
+  expiresAt?: number;
+}
+
+// Active while a transaction's callback runs; work it started that outlives
+// the callback no longer counts as inside
+interface OpenTransaction {
+  active: boolean;
+}
+
+// Keeps a table as a single JSON object ({ key: { revision, data } }) or as
+// NDJSON lines ({ key, revision, data }), plus expiresAt for records saved
+// with a TTL. Writes go to a temporary file that is renamed over the
+// table, so readers never see a partial file, and take a lock file so
+// concurrent processes don't overwrite each other's changes.
+export class FileAdapter<T = unknown> implements PersistenceAdapter<T> {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly format: FileFormat;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private transactions = new AsyncLocalStorage<OpenTransaction>();
+
+  constructor(config: FileAdapterConfig) {
+    if (/[\\/]/.test(config.table) || config.table.startsWith('.')) {
+      throw new Error(`Invalid table name for file adapter: ${config.table}`);
+    }
+    this.format = config.format || 'json';
+    this.path = join(config.directory, `${config.table}.${this.format}`);
+    this.lockPath = `${this.path}.lock`;
+    this.lockTimeout = config.lockTimeout ?? 5000;
+    this.staleLockAge = config.staleLockAge ?? 30000;
+  }
+
+  async save(key: string, data: T, options: SaveOptions = {}): Promise<number> {
+    let revision = 0;
+    await this.update(records => {
+      revision = this.write(records, key, data, options);
+    });
+    return revision;
+  }
+
+  async load(key: string): Promise<T | null> {
+    const records = await this.read();
+    return this.live(records, key)?.data ?? null;
+  }
+
+  async loadWithRevision(key: string): Promise<Revisioned<T> | null> {
+    const records = await this.read();
+    return this.revisioned(this.live(records, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(records => {
+      records.delete(key);
+    });
+  }
+
+  async query(filter: unknown, options: QueryOptions = {}): Promise<T[]> {
+    // Return empty array for invalid filters
+    if (!isValidFilter(filter)) {
+      return [];
+    }
+
+    const records = await this.read();
+    return evaluateQuery(this.entries(records), filter, options);
+  }
+
+  async count(filter: unknown): Promise<number> {
+    if (!isValidFilter(filter)) {
+      return 0;
+    }
+
+    const records = await this.read();
+    return evaluateQuery(this.entries(records), filter).length;
+  }
+
+  // Saves every entry with a single write of the table
+  async saveMany(entries: Array<[string, T]>, options: Omit<SaveOptions, 'ifRevision'> = {}): Promise<number[]> {
+    assertUniqueKeys(entries.map(([key]) => key));
+    let revisions: number[] = [];
+    await this.update(records => {
+      revisions = entries.map(([key, data]) => this.write(records, key, data, options));
+    });
+    return revisions;
+  }
+
+  async loadMany(keys: string[]): Promise<Map<string, T>> {
+    const records = await this.read();
+    const loaded = new Map<string, T>();
+    for (const key of keys) {
+      const record = this.live(records, key);
+      if (record) {
+        loaded.set(key, record.data);
+      }
+    }
+    return loaded;
+  }
+
+  async deleteMany(keys: string[]): Promise<number> {
+    let removed = 0;
+    await this.update(records => {
+      for (const key of new Set(keys)) {
+        if (records.delete(key)) {
+          removed++;
+        }
+      }
+    });
+    return removed;
+  }
+
+  // The table is read once when the scan starts
+  async *scan(filter: unknown = {}, options: ScanOptions = {}): AsyncIterableIterator<[string, T]> {
+    scanBatchSize(options);
+    if (!isValidFilter(filter)) {
+      return;
+    }
+
+    const records = await this.read();
+    yield* matchingEntries(this.entries(records), filter);
+  }
+
+  async sweep(): Promise<number> {
+    let removed = 0;
+    await this.update(records => {
+      for (const [key, record] of records) {
+        if (isExpired(record.expiresAt)) {
+          records.delete(key);
+          removed++;
+        }
+      }
+    });
+    return removed;
+  }
+
+  async disconnect(): Promise<void> {
+    // Let pending writes finish
+    await this.writeQueue;
+  }
+
+  // Holds the lock for the whole callback and writes the table once at the
+  // end. Writes made outside `tx` wait for the transaction to finish; from
+  // inside the callback they would wait forever, so they are rejected.
+  async withTransaction<R>(callback: (tx: Transaction<T>) => Promise<R>): Promise<R> {
+    return this.enqueue(() => this.withLock(async () => {
+      const records = await this.read();
+      let changed = false;
+      const copy = <V>(value: V): V => JSON.parse(JSON.stringify(value));
+
+      const tx: Transaction<T> = {
+        save: async (key, data, options = {}) => {
+          const revision = this.write(records, key, copy(data), options);
+          changed = true;
+          return revision;
+        },
+        load: async key => copy(this.live(records, key)?.data ?? null),
+        loadWithRevision: async key => copy(this.revisioned(this.live(records, key))),
+        delete: async key => {
+          changed = records.delete(key) || changed;
+        },
+        query: async (filter, options = {}) => {
+          if (!isValidFilter(filter)) return [];
+          return evaluateQuery(this.entries(records), filter, options).map(copy);
+        },
+        count: async filter => {
+          if (!isValidFilter(filter)) return 0;
+          return evaluateQuery(this.entries(records), filter).length;
+        },
+        use: <U>(adapter: PersistenceAdapter<U>): Transaction<U> => {
+          if (adapter !== (this as PersistenceAdapter<unknown>)) {
+            throw new TransactionError('File transactions cannot include other adapters');
+          }
+          return tx as unknown as Transaction<U>;
+        }
+      };
+
+      const open: OpenTransaction = { active: true };
+      let result: R;
+      try {
+        result = await this.transactions.run(open, () => callback(tx));
+      } finally {
+        open.active = false;
+      }
+      if (changed) {
+        await this.writeFile(records);
+      }
+      return result;
+    }));
+  }
+
+  private write(records: Map<string, StoredRecord<T>>, key: string, data: T, options: SaveOptions): number {
+    validateSaveOptions(options);
+    const current = this.live(records, key)?.revision ?? 0;
+    if (options.ifRevision !== undefined && options.ifRevision !== current) {
+      throw new RevisionConflictError(key, options.ifRevision, current || null);
+    }
+
+    const record: StoredRecord<T> = { revision: current + 1, data };
+    const expiresAt = expiryTime(options);
+    if (expiresAt !== null) {
+      record.expiresAt = expiresAt;
+    }
+    records.set(key, record);
+    return record.revision;
+  }
+
+  private live(records: Map<string, StoredRecord<T>>, key: string): StoredRecord<T> | undefined {
+    const record = records.get(key);
+    return record && !isExpired(record.expiresAt) ? record : undefined;
+  }
+
+  private revisioned(record: StoredRecord<T> | undefined): Revisioned<T> | null {
+    return record ? { data: record.data, revision: record.revision } : null;
+  }
+
+  private *entries(records: Map<string, StoredRecord<T>>): Iterable<[string, T]> {
+    for (const [key, record] of records) {
+      if (!isExpired(record.expiresAt)) {
+        yield [key, record.data];
+      }
+    }
+  }
+
+  private async read(): Promise<Map<string, StoredRecord<T>>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    if (this.format === 'ndjson') {
+      const records = new Map<string, StoredRecord<T>>();
+      for (const line of contents.split('\n')) {
+        if (!line.trim()) continue;
+        const { key, ...record } = JSON.parse(line);
+        records.set(key, record);
+      }
+      return records;
+    }
+
+    return new Map(Object.entries(contents.trim() ? JSON.parse(contents) : {}));
+  }
+
+  private serialize(records: Map<string, StoredRecord<T>>): string {
+    if (this.format === 'ndjson') {
+      return Array.from(records, ([key, record]) => JSON.stringify({ key, ...record }) + '\n').join('');
+    }
+    return JSON.stringify(Object.fromEntries(records), null, 2) + '\n';
+  }
+
+  private update(change: (records: Map<string, StoredRecord<T>>) => void): Promise<void> {
+    return this.enqueue(() => this.withLock(async () => {
+      const records = await this.read();
+      change(records);
+      await this.writeFile(records);
+    }));
+  }
+
+  // Writes from this process are queued so they don't poll for each other's lock
+  private enqueue<R>(write: () => Promise<R>): Promise<R> {
+    if (this.transactions.getStore()?.active) {
+      return Promise.reject(new TransactionError(
+        'Writes inside a file transaction must go through the transaction passed to the callback'
+      ));
+    }
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async writeFile(records: Map<string, StoredRecord<T>>): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(this.serialize(records));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, this.path);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (await this.removeStaleLock()) continue;
+        if (Date.now() >= deadline) {
+          throw new LockTimeoutError(this.lockPath, this.lockTimeout);
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  // Returns true when the lock is gone and acquiring it should be retried
+  private async removeStaleLock(): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      if (Date.now() - stats.mtimeMs < this.staleLockAge) {
+        return false;
+      }
+      await fs.rm(this.lockPath, { force: true });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return true;
+      throw error;
+    }
+  }
+}
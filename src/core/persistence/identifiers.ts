@@ -0,0 +1,22 @@
+import { IdentifierError } from './errors';
+
+// Schema, table and column names are limited to plain SQL identifiers
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function validateIdentifier(name: unknown, kind = 'identifier'): string {
+  if (typeof name !== 'string' || !IDENTIFIER.test(name)) {
+    throw new IdentifierError(kind, name);
+  }
+  return name;
+}
+
+// Quotes a name for Postgres or SQLite. Names are folded to lower case, as
+// Postgres does for unquoted names, so tables created before names were
+// quoted keep resolving.
+export function quoteIdentifier(name: unknown, kind?: string): string {
+  return `"${validateIdentifier(name, kind).toLowerCase()}"`;
+}
+
+export function qualifiedName(schema: unknown, table: unknown): string {
+  return `${quoteIdentifier(schema, 'schema')}.${quoteIdentifier(table, 'table')}`;
+}
@@ -0,0 +1,246 @@
+import { PersistenceAdapter, QueryOptions, Revisioned, SaveOptions, ScanOptions, Transaction } from '../types';
+import { assertUniqueKeys, scanBatchSize } from './bulk';
+import { RevisionConflictError, TransactionError } from './errors';
+import { evaluateQuery, isValidFilter, matchingEntries } from './query';
+import { expiryTime, isExpired, validateSaveOptions } from './save-options';
+
+interface StoredRecord {
+  json: string;
+  revision: number;
+  expiresAt: number | null;
+}
+
+// A write staged during a transaction; a missing record marks a delete.
+// Conditional writes remember the revision they were checked against.
+interface StagedWrite {
+  record?: StoredRecord;
+  checkedRevision?: number;
+}
+
+type StagedChanges = Map<MemoryAdapter<unknown>, Map<string, StagedWrite>>;
+
+export interface MemoryAdapterConfig {
+  table: string;
+}
+
+// Keeps records in process memory. Data is stored as JSON, so saved objects
+// are copied and round-trip the same way they would through a database.
+export class MemoryAdapter<T = unknown> implements PersistenceAdapter<T> {
+  private records = new Map<string, StoredRecord>();
+  readonly table: string;
+
+  constructor(config: MemoryAdapterConfig) {
+    this.table = config.table;
+  }
+
+  async save(key: string, data: T, options: SaveOptions = {}): Promise<number> {
+    const revision = this.nextRevision(key, this.live(key), options);
+    this.records.set(key, this.createRecord(data, revision, options));
+    return revision;
+  }
+
+  async load(key: string): Promise<T | null> {
+    const record = this.live(key);
+    return record ? JSON.parse(record.json) : null;
+  }
+
+  async loadWithRevision(key: string): Promise<Revisioned<T> | null> {
+    return this.revisioned(this.live(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async query(filter: unknown, options: QueryOptions = {}): Promise<T[]> {
+    // Return empty array for invalid filters
+    if (!isValidFilter(filter)) {
+      return [];
+    }
+
+    return evaluateQuery(this.entries(), filter, options);
+  }
+
+  async count(filter: unknown): Promise<number> {
+    if (!isValidFilter(filter)) {
+      return 0;
+    }
+
+    return evaluateQuery(this.entries(), filter).length;
+  }
+
+  async saveMany(entries: Array<[string, T]>, options: Omit<SaveOptions, 'ifRevision'> = {}): Promise<number[]> {
+    assertUniqueKeys(entries.map(([key]) => key));
+    const records = entries.map(([key, data]) => {
+      const revision = this.nextRevision(key, this.live(key), options);
+      return [key, this.createRecord(data, revision, options)] as const;
+    });
+
+    for (const [key, record] of records) {
+      this.records.set(key, record);
+    }
+    return records.map(([, record]) => record.revision);
+  }
+
+  async loadMany(keys: string[]): Promise<Map<string, T>> {
+    const loaded = new Map<string, T>();
+    for (const key of keys) {
+      const record = this.live(key);
+      if (record) {
+        loaded.set(key, JSON.parse(record.json));
+      }
+    }
+    return loaded;
+  }
+
+  async deleteMany(keys: string[]): Promise<number> {
+    let removed = 0;
+    for (const key of new Set(keys)) {
+      if (this.records.delete(key)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Records are copied when the scan starts
+  async *scan(filter: unknown = {}, options: ScanOptions = {}): AsyncIterableIterator<[string, T]> {
+    scanBatchSize(options);
+    if (!isValidFilter(filter)) {
+      return;
+    }
+
+    yield* matchingEntries(this.entries(), filter);
+  }
+
+  async sweep(): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of this.records) {
+      if (isExpired(record.expiresAt)) {
+        this.records.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async disconnect(): Promise<void> {
+    this.records.clear();
+  }
+
+  // Writes are staged and applied together once the callback resolves
+  async withTransaction<R>(callback: (tx: Transaction<T>) => Promise<R>): Promise<R> {
+    const staged: StagedChanges = new Map();
+    const result = await callback(this.bindTransaction(staged));
+
+    // Conditional writes fail if the record changed outside the transaction
+    for (const [adapter, changes] of staged) {
+      for (const [key, write] of changes) {
+        const current = adapter.live(key)?.revision ?? 0;
+        if (write.checkedRevision !== undefined && write.checkedRevision !== current) {
+          throw new RevisionConflictError(key, write.checkedRevision, current || null);
+        }
+      }
+    }
+
+    for (const [adapter, changes] of staged) {
+      for (const [key, write] of changes) {
+        if (write.record) {
+          adapter.records.set(key, write.record);
+        } else {
+          adapter.records.delete(key);
+        }
+      }
+    }
+    return result;
+  }
+
+  private bindTransaction(staged: StagedChanges): Transaction<T> {
+    const changes = () => {
+      let pending = staged.get(this);
+      if (!pending) {
+        pending = new Map();
+        staged.set(this, pending);
+      }
+      return pending;
+    };
+    const current = (key: string) => {
+      const pending = staged.get(this);
+      return pending?.has(key) ? this.visible(pending.get(key)?.record) : this.live(key);
+    };
+
+    return {
+      save: async (key, data, options = {}) => {
+        const revision = this.nextRevision(key, current(key), options);
+        const previous = changes().get(key);
+        changes().set(key, {
+          record: this.createRecord(data, revision, options),
+          checkedRevision: previous?.checkedRevision ?? (options.ifRevision === undefined
+            ? undefined
+            : this.live(key)?.revision ?? 0)
+        });
+        return revision;
+      },
+      load: async key => {
+        const record = current(key);
+        return record ? JSON.parse(record.json) : null;
+      },
+      loadWithRevision: async key => this.revisioned(current(key)),
+      delete: async key => {
+        changes().set(key, { checkedRevision: changes().get(key)?.checkedRevision });
+      },
+      query: async (filter, options = {}) => {
+        if (!isValidFilter(filter)) return [];
+        return evaluateQuery(this.entries(staged.get(this)), filter, options);
+      },
+      count: async filter => {
+        if (!isValidFilter(filter)) return 0;
+        return evaluateQuery(this.entries(staged.get(this)), filter).length;
+      },
+      use: <U>(adapter: PersistenceAdapter<U>): Transaction<U> => {
+        if (!(adapter instanceof MemoryAdapter)) {
+          throw new TransactionError('Memory transactions can only include other memory adapters');
+        }
+        return adapter.bindTransaction(staged);
+      }
+    };
+  }
+
+  private createRecord(data: T, revision: number, options: SaveOptions): StoredRecord {
+    return { json: JSON.stringify(data), revision, expiresAt: expiryTime(options) };
+  }
+
+  private live(key: string): StoredRecord | undefined {
+    return this.visible(this.records.get(key));
+  }
+
+  private visible(record: StoredRecord | undefined): StoredRecord | undefined {
+    return record && !isExpired(record.expiresAt) ? record : undefined;
+  }
+
+  private nextRevision(key: string, record: StoredRecord | undefined, options: SaveOptions): number {
+    validateSaveOptions(options);
+    const revision = record?.revision ?? 0;
+    if (options.ifRevision !== undefined && options.ifRevision !== revision) {
+      throw new RevisionConflictError(key, options.ifRevision, record ? revision : null);
+    }
+    return revision + 1;
+  }
+
+  private revisioned(record: StoredRecord | undefined): Revisioned<T> | null {
+    return record ? { data: JSON.parse(record.json), revision: record.revision } : null;
+  }
+
+  private *entries(pending?: Map<string, StagedWrite>): Iterable<[string, T]> {
+    const records = new Map<string, StoredRecord | undefined>(this.records);
+    for (const [key, write] of pending || []) {
+      records.set(key, write.record);
+    }
+    for (const [key, record] of records) {
+      const live = this.visible(record);
+      if (live) {
+        yield [key, JSON.parse(live.json)];
+      }
+    }
+  }
+}
@@ -1,27 +1,35 @@
 #!/usr/bin/env node
-import { Pool } from 'pg';
 import { MigrationRunner } from './runner';
+import { ConnectionRegistry } from '../connections';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { createHash } from 'crypto';
 
 interface CliOptions {
-  command: 'create' | 'up' | 'down' | 'status' | 'reset';
+  command: 'create' | 'up' | 'down' | 'status' | 'reset' | 'verify';
   name?: string;
   steps?: number;
   config?: string;
+  database?: string;
+  sql?: boolean;
 }
 
 async function main() {
   const options = parseArgs();
   const config = await loadConfig(options.config);
-  const pool = new Pool(config.database);
-  const runner = new MigrationRunner(pool, config.migrations);
+  if (config.pool) {
+    ConnectionRegistry.configure(config.pool);
+  }
+  // `database` is a postgres:// or sqlite: URL, or pg pool options; DATABASE_URL
+  // overrides the config file, and --database overrides both
+  const database = options.database || process.env.DATABASE_URL || config.database;
+  const connection = typeof database === 'string' ? database : ConnectionRegistry.acquirePool(database);
+  const runner = new MigrationRunner(connection, config.migrations);
 
   try {
     switch (options.command) {
       case 'create':
-        await createMigration(options.name || 'migration');
+        await createMigration(options.name || 'migration', options.sql);
         break;
       
       case 'up':
@@ -67,16 +75,36 @@ async function main() {
         const status = await runner.status();
         console.log('Applied migrations:');
         for (const migration of status.applied) {
-          console.log(`✓ ${migration.name} (applied at ${migration.appliedAt})`);
+          const drift = status.changed.includes(migration) ? '; file changed since'
+            : status.missing.includes(migration) ? '; file missing' : '';
+          console.log(`${drift ? '!' : '✓'} ${migration.name} (applied at ${migration.appliedAt}${drift})`);
         }
         console.log('\nPending migrations:');
         for (const migration of status.pending) {
           console.log(`- ${migration.name}`);
         }
         break;
+
+      case 'verify':
+        const { changed, missing } = await runner.status();
+        for (const migration of changed) {
+          console.error(`! ${migration.name} changed after it was applied`);
+        }
+        for (const migration of missing) {
+          console.error(`! ${migration.name} was applied but its file is missing`);
+        }
+        if (changed.length > 0 || missing.length > 0) {
+          process.exitCode = 1;
+        } else {
+          console.log('All applied migrations match their files');
+        }
+        break;
     }
   } finally {
-    await pool.end();
+    await runner.close();
+    if (typeof connection !== 'string') {
+      await ConnectionRegistry.releasePool(connection);
+    }
   }
 }
 
@@ -97,6 +125,12 @@ function parseArgs(): CliOptions {
       case '--config':
         options.config = args[++i];
         break;
+      case '--database':
+        options.database = args[++i];
+        break;
+      case '--sql':
+        options.sql = true;
+        break;
       default:
         if (!args[i].startsWith('-')) {
           options.command = args[i] as CliOptions['command'];
@@ -130,34 +164,41 @@ async function loadConfig(configPath = 'aiframe.config.json') {
   }
 }
 
-async function createMigration(name: string) {
+async function createMigration(name: string, sql = false) {
   const timestamp = Date.now();
   const id = createHash('sha256')
     .update(`${timestamp}-${name}`)
     .digest('hex')
     .slice(0, 8);
     
-  const filename = `${timestamp}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ts`;
+  const filename = `${timestamp}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.${sql ? 'sql' : 'ts'}`;
   const path = join(process.cwd(), 'migrations', filename);
 
-  const content = `import { Migration } from '../src/core/persistence/migrations/types';
-import { Pool } from 'pg';
+  // SQL migrations take their id and timestamp from the filename
+  const content = sql ? `-- Migration: ${name}
+
+-- up
+-- Your SQL here
+
+-- down
+-- Your rollback SQL here
+` : `import { Migration, MigrationClient } from '../src/core/persistence/migrations/types';
 
 const migration: Migration = {
   id: '${id}',
   name: '${name}',
   timestamp: ${timestamp},
 
-  async up(client: Pool): Promise<void> {
-    // Add your migration code here
-    await client.query(\`
+  async up(client: MigrationClient): Promise<void> {
+    // Add your migration code here; exec runs several statements, query one
+    await client.exec(\`
       -- Your SQL here
     \`);
   },
 
-  async down(client: Pool): Promise<void> {
+  async down(client: MigrationClient): Promise<void> {
     // Add your rollback code here
-    await client.query(\`
+    await client.exec(\`
       -- Your rollback SQL here
     \`);
   }
@@ -171,4 +212,8 @@ export = migration;
   console.log(`Created migration: ${filename}`);
 }
 
-main().catch(console.error); 
\ No newline at end of file
+// A failed command, verify included, must not look like a clean run
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+}); 
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { Pool } from 'pg';
+import { Database } from 'sqlite3';
+import { ConnectionRegistry, parseDatabaseUrl } from '../connections';
+import { MigrationClient, MigrationDriver } from './types';
+
+export class PostgresMigrationDriver implements MigrationDriver {
+  readonly dialect = 'postgres';
+
+  // Pools from the ConnectionRegistry are released on close; others are ended
+  constructor(private readonly pool: Pool) {}
+
+  async query<R = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<{ rows: R[] }> {
+    const { rows } = await this.pool.query(sql, params);
+    return { rows: rows as R[] };
+  }
+
+  async exec(script: string): Promise<void> {
+    // Without parameters pg sends a simple query, which may hold several statements
+    await this.pool.query(script);
+  }
+
+  async transaction<R>(work: (client: MigrationClient) => Promise<R>): Promise<R> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work({
+        query: async <Row>(sql: string, params: unknown[] = []) => {
+          const { rows } = await client.query(sql, params);
+          return { rows: rows as Row[] };
+        },
+        exec: async script => {
+          await client.query(script);
+        }
+      });
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('Failed to rollback migration:', rollbackError);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await ConnectionRegistry.releasePool(this.pool);
+  }
+}
+
+// Looks for text after a top-level semicolon, skipping quotes and comments.
+// Trigger bodies hold semicolons of their own and are left to SQLite.
+function hasSeveralStatements(sql: string): boolean {
+  if (/\bCREATE\s+(TEMP\w*\s+)?TRIGGER\b/i.test(sql)) return false;
+
+  const code = sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+  const end = code.indexOf(';');
+  return end !== -1 && code.slice(end + 1).replace(/;/g, '').trim() !== '';
+}
+
+export class SQLiteMigrationDriver implements MigrationDriver {
+  readonly dialect = 'sqlite';
+  private released = false;
+
+  constructor(private readonly db: Database) {}
+
+  // node-sqlite3 quietly ignores anything after the first statement
+  query<R = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<{ rows: R[] }> {
+    if (hasSeveralStatements(sql)) {
+      return Promise.reject(new Error('query runs a single statement; use exec for scripts'));
+    }
+    // $1 is a named parameter to SQLite; ?1 binds by position
+    const text = params.length > 0 ? sql.replace(/\$(\d+)/g, '?$1') : sql;
+    return ConnectionRegistry.withSQLite(this.db, () => new Promise((resolve, reject) => {
+      this.db.all(text, params, (err: Error | null, rows: R[]) => {
+        if (err) reject(err);
+        else resolve({ rows });
+      });
+    }));
+  }
+
+  exec(script: string): Promise<void> {
+    return ConnectionRegistry.withSQLite(this.db, () => new Promise<void>((resolve, reject) => {
+      this.db.exec(script, (err: Error | null) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    }));
+  }
+
+  // The handle may be shared with adapters on the same file; the turn keeps
+  // their statements out of the migration's transaction
+  transaction<R>(work: (client: MigrationClient) => Promise<R>): Promise<R> {
+    return ConnectionRegistry.withSQLite(this.db, async () => {
+      await this.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await work(this);
+        await this.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await this.exec('ROLLBACK').catch(rollbackError => {
+          console.error('Failed to rollback migration:', rollbackError);
+        });
+        throw error;
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.released) return;
+    this.released = true;
+    await ConnectionRegistry.releaseSQLite(this.db);
+  }
+}
+
+// Accepts a driver, a pg pool, or a postgres:// or sqlite: URL
+export function createMigrationDriver(connection: MigrationDriver | Pool | string): MigrationDriver {
+  if (typeof connection !== 'string') {
+    return 'dialect' in connection ? connection : new PostgresMigrationDriver(connection);
+  }
+
+  const parsed = parseDatabaseUrl(connection);
+  return parsed.type === 'postgres'
+    ? new PostgresMigrationDriver(ConnectionRegistry.acquirePool(parsed.config))
+    : new SQLiteMigrationDriver(ConnectionRegistry.openSQLite(parsed.filename));
+}
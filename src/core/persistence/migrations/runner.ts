@@ -1,65 +1,114 @@
 import { Pool } from 'pg';
-import { Migration, MigrationOptions, MigrationRecord, MigrationResult } from './types';
+import { qualifiedName, quoteIdentifier } from '../identifiers';
+import { createMigrationDriver } from './drivers';
+import { parseSqlMigration } from './sql';
+import {
+  Migration,
+  MigrationDriver,
+  MigrationOptions,
+  MigrationRecord,
+  MigrationResult,
+  MigrationStatus
+} from './types';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
+// A row of the migrations table as either database returns it
+interface MigrationRow {
+  id: string;
+  name: string;
+  timestamp: string | number;
+  applied_at: Date | string;
+  batch: string | number;
+  checksum: string | null;
+}
+
+// Line endings are normalized so checkouts on other platforms still match
+function checksum(content: string): string {
+  return createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
 export class MigrationRunner {
+  private readonly driver: MigrationDriver;
+  private readonly ownsDriver: boolean;
+  // Quoted for use in SQL
   private readonly schema: string;
-  private readonly table: string;
+  private readonly target: string;
   private readonly migrationsDir: string;
   private isInitialized = false;
 
+  // Takes a driver, a pg pool, or a postgres:// or sqlite: URL. Connections
+  // opened from a URL are closed by close().
   constructor(
-    private pool: Pool,
+    connection: MigrationDriver | Pool | string,
     options: MigrationOptions = {}
   ) {
-    this.schema = options.schema || 'public';
-    this.table = options.table || 'migrations';
+    this.driver = createMigrationDriver(connection);
+    this.ownsDriver = typeof connection === 'string';
+    this.schema = quoteIdentifier(options.schema || 'public', 'schema');
+    const table = options.table || 'migrations';
+    this.target = this.driver.dialect === 'postgres'
+      ? qualifiedName(options.schema || 'public', table)
+      : quoteIdentifier(table, 'table');
     this.migrationsDir = options.migrationsDir || join(process.cwd(), 'migrations');
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    const client = await this.pool.connect();
-    try {
-      // Create schema if needed
-      await client.query(`
+    if (this.driver.dialect === 'postgres') {
+      await this.driver.exec(`
         CREATE SCHEMA IF NOT EXISTS ${this.schema};
       `);
+    }
 
-      // Create migrations table if needed
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS ${this.schema}.${this.table} (
-          id TEXT PRIMARY KEY,
-          name TEXT NOT NULL,
-          timestamp BIGINT NOT NULL,
-          applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-          batch INTEGER NOT NULL
-        );
-      `);
+    // Create migrations table if needed
+    await this.driver.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.target} (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        timestamp BIGINT NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        batch INTEGER NOT NULL,
+        checksum TEXT
+      );
+    `);
 
-      this.isInitialized = true;
-    } finally {
-      client.release();
+    // Add the checksum column to tables created before it existed
+    if (this.driver.dialect === 'postgres') {
+      await this.driver.exec(`ALTER TABLE ${this.target} ADD COLUMN IF NOT EXISTS checksum TEXT;`);
+    } else {
+      const columns = await this.driver.query<{ name: string }>(`PRAGMA table_info(${this.target});`);
+      if (!columns.rows.some(column => column.name === 'checksum')) {
+        await this.driver.exec(`ALTER TABLE ${this.target} ADD COLUMN checksum TEXT;`);
+      }
     }
+
+    this.isInitialized = true;
   }
 
   async getAppliedMigrations(): Promise<MigrationRecord[]> {
     await this.initialize();
 
-    const result = await this.pool.query<MigrationRecord>(`
-      SELECT 
-        id,
-        name,
-        timestamp,
-        applied_at as "appliedAt",
-        batch
-      FROM ${this.schema}.${this.table}
+    const result = await this.driver.query<MigrationRow>(`
+      SELECT id, name, timestamp, applied_at, batch, checksum
+      FROM ${this.target}
       ORDER BY timestamp ASC;
     `);
 
-    return result.rows;
+    return result.rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      // pg returns BIGINT as a string
+      timestamp: Number(row.timestamp),
+      // SQLite stores CURRENT_TIMESTAMP as UTC text
+      appliedAt: row.applied_at instanceof Date
+        ? row.applied_at
+        : new Date(`${String(row.applied_at).replace(' ', 'T')}Z`),
+      batch: Number(row.batch),
+      checksum: row.checksum ?? null
+    }));
   }
 
   async loadMigrations(): Promise<Migration[]> {
@@ -70,12 +119,15 @@ export class MigrationRunner {
     const migrations: Migration[] = [];
 
     for (const file of files) {
-      if (!file.endsWith('.js') && !file.endsWith('.ts')) continue;
+      const isSql = file.endsWith('.sql');
+      if (!isSql && !file.endsWith('.js') && !file.endsWith('.ts')) continue;
 
       const path = join(this.migrationsDir, file);
-      const migration = require(path);
+      const content = await fs.readFile(path, 'utf-8');
+      const migration = isSql ? parseSqlMigration(file, content) : require(path);
 
       if (this.isValidMigration(migration)) {
+        migration.checksum = checksum(content);
         migrations.push(migration);
       }
     }
@@ -112,18 +164,16 @@ export class MigrationRunner {
     for (const migration of pendingMigrations) {
       const startTime = Date.now();
       try {
-        await this.pool.query('BEGIN');
-
-        await migration.up(this.pool);
-
-        // Record the migration
-        await this.pool.query(`
-          INSERT INTO ${this.schema}.${this.table}
-          (id, name, timestamp, batch)
-          VALUES ($1, $2, $3, $4);
-        `, [migration.id, migration.name, migration.timestamp, latestBatch + 1]);
-
-        await this.pool.query('COMMIT');
+        await this.driver.transaction(async client => {
+          await migration.up(client);
+
+          // Record the migration
+          await client.query(`
+            INSERT INTO ${this.target}
+            (id, name, timestamp, batch, checksum)
+            VALUES ($1, $2, $3, $4, $5);
+          `, [migration.id, migration.name, migration.timestamp, latestBatch + 1, migration.checksum ?? null]);
+        });
 
         results.push({
           id: migration.id,
@@ -132,7 +182,6 @@ export class MigrationRunner {
           duration: Date.now() - startTime
         });
       } catch (error) {
-        await this.pool.query('ROLLBACK');
         results.push({
           id: migration.id,
           name: migration.name,
@@ -165,17 +214,15 @@ export class MigrationRunner {
 
       const startTime = Date.now();
       try {
-        await this.pool.query('BEGIN');
-
-        await migration.down(this.pool);
-
-        // Remove the migration record
-        await this.pool.query(`
-          DELETE FROM ${this.schema}.${this.table}
-          WHERE id = $1;
-        `, [migration.id]);
-
-        await this.pool.query('COMMIT');
+        await this.driver.transaction(async client => {
+          await migration.down(client);
+
+          // Remove the migration record
+          await client.query(`
+            DELETE FROM ${this.target}
+            WHERE id = $1;
+          `, [migration.id]);
+        });
 
         results.push({
           id: migration.id,
@@ -184,7 +231,6 @@ export class MigrationRunner {
           duration: Date.now() - startTime
         });
       } catch (error) {
-        await this.pool.query('ROLLBACK');
         results.push({
           id: migration.id,
           name: migration.name,
@@ -204,10 +250,7 @@ export class MigrationRunner {
     return this.down(appliedMigrations.length);
   }
 
-  async status(): Promise<{
-    applied: MigrationRecord[];
-    pending: Migration[];
-  }> {
+  async status(): Promise<MigrationStatus> {
     const appliedMigrations = await this.getAppliedMigrations();
     const allMigrations = await this.loadMigrations();
 
@@ -215,9 +258,25 @@ export class MigrationRunner {
       migration => !appliedMigrations.find(am => am.id === migration.id)
     );
 
+    // Records without a checksum predate them and can't be compared
+    const files = new Map(allMigrations.map(migration => [migration.id, migration]));
+    const changed = appliedMigrations.filter(record => {
+      const current = files.get(record.id)?.checksum;
+      return record.checksum !== null && current !== undefined && current !== record.checksum;
+    });
+    const missing = appliedMigrations.filter(record => !files.has(record.id));
+
     return {
       applied: appliedMigrations,
-      pending
+      pending,
+      changed,
+      missing
     };
   }
-} 
\ No newline at end of file
+
+  async close(): Promise<void> {
+    if (this.ownsDriver) {
+      await this.driver.close();
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Migration, MigrationClient } from './types';
+
+// 1700000000000-create-users.sql
+const FILENAME = /^(\d+)[-_](.+)\.sql$/;
+const SECTION = /^\s*--\s*(up|down)\s*$/i;
+
+function isComment(line: string): boolean {
+  return line.trim() === '' || line.trim().startsWith('--');
+}
+
+// Reads a migration written as plain SQL. A `-- up` line starts the forward
+// script and a `-- down` line the rollback; the id and timestamp come from
+// the filename.
+export function parseSqlMigration(filename: string, content: string): Migration {
+  const match = FILENAME.exec(filename);
+  if (!match) {
+    throw new Error(`SQL migration filenames must look like <timestamp>-<name>.sql: ${filename}`);
+  }
+
+  const sections: Partial<Record<'up' | 'down', string[]>> = {};
+  let current: string[] | undefined;
+  for (const line of content.split(/\r?\n/)) {
+    const marker = SECTION.exec(line)?.[1].toLowerCase() as 'up' | 'down' | undefined;
+    if (marker) {
+      if (sections[marker]) {
+        throw new Error(`SQL migration ${filename} has more than one -- ${marker} section`);
+      }
+      current = sections[marker] = [];
+    } else if (current) {
+      current.push(line);
+    } else if (!isComment(line)) {
+      throw new Error(`SQL migration ${filename} has statements before its -- up section`);
+    }
+  }
+
+  if (!sections.up) {
+    throw new Error(`SQL migration ${filename} has no -- up section`);
+  }
+  const up = sections.up.join('\n').trim();
+  const down = sections.down?.join('\n').trim();
+
+  return {
+    id: filename.slice(0, -'.sql'.length),
+    name: match[2],
+    timestamp: Number(match[1]),
+    up: (client: MigrationClient) => client.exec(up),
+    down: async (client: MigrationClient) => {
+      if (down === undefined) {
+        throw new Error(`SQL migration ${filename} has no -- down section`);
+      }
+      await client.exec(down);
+    }
+  };
+}
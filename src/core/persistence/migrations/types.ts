@@ -1,11 +1,33 @@
 import { Pool } from 'pg';
 
+export type MigrationDialect = 'postgres' | 'sqlite';
+
+// The connection a migration runs on. Placeholders are written $1, $2, ...
+// for both databases.
+export interface MigrationClient {
+  // Runs a single statement; R describes the rows it returns
+  query<R = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<{ rows: R[] }>;
+  // Runs a script of one or more statements
+  exec(script: string): Promise<void>;
+}
+
+// How the runner reaches a database
+export interface MigrationDriver extends MigrationClient {
+  readonly dialect: MigrationDialect;
+  // Runs work inside a transaction on a single connection
+  transaction<R>(work: (client: MigrationClient) => Promise<R>): Promise<R>;
+  close(): Promise<void>;
+}
+
 export interface Migration {
   id: string;
   name: string;
   timestamp: number;
-  up: (client: Pool) => Promise<void>;
-  down: (client: Pool) => Promise<void>;
+  // Set by the runner from the migration file's contents
+  checksum?: string;
+  // Migrations written against a pg Pool only call query, so they still fit
+  up(client: MigrationClient | Pool): Promise<void>;
+  down(client: MigrationClient | Pool): Promise<void>;
 }
 
 export interface MigrationRecord {
@@ -14,9 +36,21 @@ export interface MigrationRecord {
   timestamp: number;
   appliedAt: Date;
   batch: number;
+  // Null for migrations applied before checksums were recorded
+  checksum: string | null;
+}
+
+export interface MigrationStatus {
+  applied: MigrationRecord[];
+  pending: Migration[];
+  // Applied migrations whose file has since been edited
+  changed: MigrationRecord[];
+  // Applied migrations whose file is gone
+  missing: MigrationRecord[];
 }
 
 export interface MigrationOptions {
+  // Postgres only; SQLite has no schemas
   schema?: string;
   table?: string;
   migrationsDir?: string;
@@ -28,4 +62,4 @@ export interface MigrationResult {
   status: 'success' | 'error';
   error?: Error;
   duration: number;
-} 
\ No newline at end of file
+} 
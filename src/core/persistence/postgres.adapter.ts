@@ -1,30 +1,51 @@
-import { PersistenceAdapter } from '../types';
+import { PersistenceAdapter, QueryOptions, Revisioned, SaveOptions, ScanOptions, Transaction } from '../types';
 import { Pool, PoolConfig, QueryResult, PoolClient } from 'pg';
+import { assertUniqueKeys, scanBatchSize } from './bulk';
+import { ConnectionRegistry } from './connections';
+import { RevisionConflictError, TransactionError } from './errors';
+import { qualifiedName, quoteIdentifier, validateIdentifier } from './identifiers';
+import { PostgresQueryBuilder, indexName, isValidFilter, parseIndexPath } from './query';
+import { validateSaveOptions } from './save-options';
+
+// Rows whose expires_at has passed are hidden from reads
+const LIVE_ROWS = '(expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)';
+
+// Upserts bind the TTL in milliseconds as $3, NULL for records that never
+// expire. Expired rows count as missing, so their revision starts over.
+const EXPIRES_AT = `CURRENT_TIMESTAMP + $3::double precision * INTERVAL '1 millisecond'`;
+const EXPIRED = 'existing.expires_at <= CURRENT_TIMESTAMP';
 
 export interface PostgresAdapterConfig extends PoolConfig {
   table: string;
   keyColumn?: string;
   dataColumn?: string;
   schema?: string;
+  // Data paths ('status', 'owner.id') to create expression indexes for
+  indexes?: string[];
 }
 
 export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
   private pool?: Pool;
   private readonly table: string;
+  private readonly schema: string;
+  // Quoted for use in SQL
+  private readonly target: string;
   private readonly keyColumn: string;
   private readonly dataColumn: string;
-  private readonly schema: string;
+  private readonly indexes: string[][];
   private isInitialized = false;
 
   constructor(private config: PostgresAdapterConfig) {
-    this.table = config.table;
-    this.keyColumn = config.keyColumn || 'key';
-    this.dataColumn = config.dataColumn || 'data';
-    this.schema = config.schema || 'public';
+    this.table = validateIdentifier(config.table, 'table');
+    this.schema = validateIdentifier(config.schema || 'public', 'schema');
+    this.target = qualifiedName(this.schema, this.table);
+    this.keyColumn = quoteIdentifier(config.keyColumn || 'key', 'column');
+    this.dataColumn = quoteIdentifier(config.dataColumn || 'data', 'column');
+    this.indexes = (config.indexes || []).map(parseIndexPath);
     
-    // Create connection pool
-    const { table, keyColumn, dataColumn, schema, ...poolConfig } = config;
-    this.pool = new Pool(poolConfig);
+    // Adapters on the same database share a pool
+    const { table, keyColumn, dataColumn, schema, indexes, ...poolConfig } = config;
+    this.pool = ConnectionRegistry.acquirePool(poolConfig);
   }
 
   private ensurePool(): Pool {
@@ -41,20 +62,43 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
     try {
       // Create schema if it doesn't exist
       await client.query(`
-        CREATE SCHEMA IF NOT EXISTS ${this.schema};
+        CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(this.schema)};
       `);
 
       // Create table if it doesn't exist
       await client.query(`
-        CREATE TABLE IF NOT EXISTS ${this.schema}.${this.table} (
+        CREATE TABLE IF NOT EXISTS ${this.target} (
           ${this.keyColumn} TEXT PRIMARY KEY,
           ${this.dataColumn} JSONB NOT NULL,
+          revision INTEGER NOT NULL DEFAULT 1,
+          expires_at TIMESTAMP WITH TIME ZONE,
           created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
         );
       `);
 
+      // Add columns introduced after the table was first created
+      await client.query(`
+        ALTER TABLE ${this.target}
+        ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1,
+        ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+      `);
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${this.table}_expires_at`)}
+        ON ${this.target} (expires_at);
+      `);
+
+      const builder = this.queryBuilder();
+      for (const path of this.indexes) {
+        await client.query(`
+          CREATE INDEX IF NOT EXISTS ${quoteIdentifier(indexName(this.table, path))}
+          ON ${this.target} ((${builder.indexExpression(path)}));
+        `);
+      }
+
       // Create updated_at trigger
+      const trigger = quoteIdentifier(`update_${this.table}_updated_at`);
       await client.query(`
         CREATE OR REPLACE FUNCTION update_updated_at_column()
         RETURNS TRIGGER AS $$
@@ -66,13 +110,13 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
       `);
 
       await client.query(`
-        DROP TRIGGER IF EXISTS update_${this.table}_updated_at 
-        ON ${this.schema}.${this.table};
+        DROP TRIGGER IF EXISTS ${trigger}
+        ON ${this.target};
       `);
 
       await client.query(`
-        CREATE TRIGGER update_${this.table}_updated_at
-        BEFORE UPDATE ON ${this.schema}.${this.table}
+        CREATE TRIGGER ${trigger}
+        BEFORE UPDATE ON ${this.target}
         FOR EACH ROW
         EXECUTE FUNCTION update_updated_at_column();
       `);
@@ -83,33 +127,88 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
     }
   }
 
-  async save(key: string, data: T, client?: Pool | PoolClient): Promise<void> {
-    await this.initialize();
+  private queryBuilder(): PostgresQueryBuilder {
+    return new PostgresQueryBuilder(this.dataColumn, this.keyColumn, this.indexes);
+  }
 
-    const query = `
-      INSERT INTO ${this.schema}.${this.table} (${this.keyColumn}, ${this.dataColumn})
-      VALUES ($1, $2)
-      ON CONFLICT (${this.keyColumn})
-      DO UPDATE SET
-        ${this.dataColumn} = $2,
-        updated_at = CURRENT_TIMESTAMP;
-    `;
+  async save(
+    key: string,
+    data: T,
+    options: SaveOptions = {},
+    client?: Pool | PoolClient
+  ): Promise<number> {
+    validateSaveOptions(options);
+    await this.initialize();
+    const { ifRevision } = options;
+
+    let query: string;
+    const params: unknown[] = [key, data, options.ttlMs ?? null];
+    if (ifRevision === undefined) {
+      query = `
+        INSERT INTO ${this.target} AS existing (${this.keyColumn}, ${this.dataColumn}, revision, expires_at)
+        VALUES ($1, $2, 1, ${EXPIRES_AT})
+        ON CONFLICT (${this.keyColumn})
+        DO UPDATE SET
+          ${this.dataColumn} = $2,
+          revision = CASE WHEN ${EXPIRED} THEN 1 ELSE existing.revision + 1 END,
+          expires_at = EXCLUDED.expires_at,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING revision;
+      `;
+    } else if (ifRevision === 0) {
+      query = `
+        INSERT INTO ${this.target} AS existing (${this.keyColumn}, ${this.dataColumn}, revision, expires_at)
+        VALUES ($1, $2, 1, ${EXPIRES_AT})
+        ON CONFLICT (${this.keyColumn})
+        DO UPDATE SET
+          ${this.dataColumn} = $2,
+          revision = 1,
+          expires_at = EXCLUDED.expires_at,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE ${EXPIRED}
+        RETURNING revision;
+      `;
+    } else {
+      query = `
+        UPDATE ${this.target}
+        SET
+          ${this.dataColumn} = $2,
+          revision = revision + 1,
+          expires_at = ${EXPIRES_AT},
+          updated_at = CURRENT_TIMESTAMP
+        WHERE ${this.keyColumn} = $1 AND revision = $4 AND ${LIVE_ROWS}
+        RETURNING revision;
+      `;
+      params.push(ifRevision);
+    }
 
     // If we're in a transaction, we must use the transaction's client
+    let result;
     if (client && !('options' in client)) {
-      await client.query(query, [key, data]);
+      result = await client.query(query, params);
     } else {
-      await this.ensurePool().query(query, [key, data]);
+      result = await this.ensurePool().query(query, params);
     }
+
+    if (result.rows.length === 0) {
+      const current = await this.loadWithRevision(key, client);
+      throw new RevisionConflictError(key, ifRevision as number, current ? current.revision : null);
+    }
+    return result.rows[0].revision;
   }
 
   async load(key: string, client?: Pool | PoolClient): Promise<T | null> {
+    const record = await this.loadWithRevision(key, client);
+    return record ? record.data : null;
+  }
+
+  async loadWithRevision(key: string, client?: Pool | PoolClient): Promise<Revisioned<T> | null> {
     await this.initialize();
 
     const query = `
-      SELECT ${this.dataColumn}
-      FROM ${this.schema}.${this.table}
-      WHERE ${this.keyColumn} = $1;
+      SELECT ${this.dataColumn} AS data, revision
+      FROM ${this.target}
+      WHERE ${this.keyColumn} = $1 AND ${LIVE_ROWS};
     `;
 
     // If we're in a transaction, we must use the transaction's client
@@ -120,14 +219,15 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
       result = await this.ensurePool().query(query, [key]);
     }
 
-    return result.rows.length > 0 ? result.rows[0][this.dataColumn] : null;
+    if (result.rows.length === 0) return null;
+    return { data: result.rows[0].data, revision: result.rows[0].revision };
   }
 
   async delete(key: string, client?: Pool | PoolClient): Promise<void> {
     await this.initialize();
 
     const query = `
-      DELETE FROM ${this.schema}.${this.table}
+      DELETE FROM ${this.target}
       WHERE ${this.keyColumn} = $1;
     `;
 
@@ -139,32 +239,153 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
     }
   }
 
-  async query(filter: unknown, client?: Pool | PoolClient): Promise<T[]> {
+  async query(filter: unknown, options: QueryOptions = {}, client?: Pool | PoolClient): Promise<T[]> {
     await this.initialize();
 
     // Return empty array for invalid filters
-    if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    if (!isValidFilter(filter)) {
       return [];
     }
 
     // Convert filter to PostgreSQL JSONB query
-    const conditions = this.buildJsonbConditions(filter);
-    
+    const built = this.queryBuilder().build(filter, options);
+
     const query = `
-      SELECT ${this.dataColumn}
-      FROM ${this.schema}.${this.table}
-      WHERE ${conditions.query};
+      SELECT ${this.dataColumn} AS data
+      FROM ${this.target}
+      WHERE (${built.where}) AND ${LIVE_ROWS}
+      ${built.orderBy}
+      ${built.limit};
     `;
 
     // If we're in a transaction, we must use the transaction's client
     let result;
     if (client && !('options' in client)) {
-      result = await client.query(query, conditions.params);
+      result = await client.query(query, built.params);
     } else {
-      result = await this.ensurePool().query(query, conditions.params);
+      result = await this.ensurePool().query(query, built.params);
     }
 
-    return result.rows.map(row => row[this.dataColumn]);
+    return result.rows.map(row => row.data);
+  }
+
+  async count(filter: unknown, client?: Pool | PoolClient): Promise<number> {
+    await this.initialize();
+
+    if (!isValidFilter(filter)) {
+      return 0;
+    }
+
+    const built = this.queryBuilder().build(filter);
+
+    const query = `
+      SELECT COUNT(*) AS count
+      FROM ${this.target}
+      WHERE (${built.where}) AND ${LIVE_ROWS};
+    `;
+
+    // If we're in a transaction, we must use the transaction's client
+    let result;
+    if (client && !('options' in client)) {
+      result = await client.query(query, built.params);
+    } else {
+      result = await this.ensurePool().query(query, built.params);
+    }
+
+    return Number(result.rows[0].count);
+  }
+
+  // Saves every entry with one multi-row upsert
+  async saveMany(entries: Array<[string, T]>, options: Omit<SaveOptions, 'ifRevision'> = {}): Promise<number[]> {
+    const keys = entries.map(([key]) => key);
+    assertUniqueKeys(keys);
+    validateSaveOptions(options);
+    await this.initialize();
+
+    if (entries.length === 0) return [];
+
+    const result = await this.ensurePool().query(`
+      INSERT INTO ${this.target} AS existing
+        (${this.keyColumn}, ${this.dataColumn}, revision, expires_at)
+      SELECT entry.key, entry.data::jsonb, 1, ${EXPIRES_AT}
+      FROM unnest($1::text[], $2::text[]) AS entry(key, data)
+      ON CONFLICT (${this.keyColumn})
+      DO UPDATE SET
+        ${this.dataColumn} = EXCLUDED.${this.dataColumn},
+        revision = CASE WHEN ${EXPIRED} THEN 1 ELSE existing.revision + 1 END,
+        expires_at = EXCLUDED.expires_at,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING ${this.keyColumn} AS key, revision;
+    `, [keys, entries.map(([, data]) => JSON.stringify(data)), options.ttlMs ?? null]);
+
+    const revisions = new Map<string, number>(result.rows.map(row => [row.key, row.revision]));
+    return keys.map(key => revisions.get(key) as number);
+  }
+
+  async loadMany(keys: string[]): Promise<Map<string, T>> {
+    await this.initialize();
+
+    const result = await this.ensurePool().query(`
+      SELECT ${this.keyColumn} AS key, ${this.dataColumn} AS data
+      FROM ${this.target}
+      WHERE ${this.keyColumn} = ANY($1::text[]) AND ${LIVE_ROWS};
+    `, [keys]);
+
+    return new Map(result.rows.map(row => [row.key, row.data]));
+  }
+
+  async deleteMany(keys: string[]): Promise<number> {
+    await this.initialize();
+
+    const result = await this.ensurePool().query(`
+      DELETE FROM ${this.target}
+      WHERE ${this.keyColumn} = ANY($1::text[]);
+    `, [keys]);
+    return result.rowCount ?? 0;
+  }
+
+  // Pages through matching rows in key order, one batch per query
+  async *scan(filter: unknown = {}, options: ScanOptions = {}): AsyncIterableIterator<[string, T]> {
+    const batchSize = scanBatchSize(options);
+    await this.initialize();
+
+    if (!isValidFilter(filter)) {
+      return;
+    }
+
+    const built = this.queryBuilder().build(filter);
+    const next = built.params.length + 1;
+    let after: string | undefined;
+
+    for (;;) {
+      const params = [...built.params, batchSize];
+      if (after !== undefined) params.push(after);
+
+      const result = await this.ensurePool().query(`
+        SELECT ${this.keyColumn} AS key, ${this.dataColumn} AS data
+        FROM ${this.target}
+        WHERE (${built.where}) AND ${LIVE_ROWS}
+        ${after === undefined ? '' : `AND ${this.keyColumn} > $${next + 1}`}
+        ORDER BY ${this.keyColumn}
+        LIMIT $${next};
+      `, params);
+
+      for (const row of result.rows) {
+        yield [row.key, row.data];
+      }
+      if (result.rows.length < batchSize) return;
+      after = result.rows[result.rows.length - 1].key;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    await this.initialize();
+
+    const result = await this.ensurePool().query(`
+      DELETE FROM ${this.target}
+      WHERE expires_at <= CURRENT_TIMESTAMP;
+    `);
+    return result.rowCount ?? 0;
   }
 
   async disconnect(): Promise<void> {
@@ -190,8 +411,8 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
       // Wait for any in-progress operations to complete
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      // End the pool with a timeout
-      const endPromise = this.pool.end();
+      // Release the shared pool, which ends once no adapter uses it
+      const endPromise = ConnectionRegistry.releasePool(this.pool);
       const timeoutPromise = new Promise((_, reject) => {
         setTimeout(() => reject(new Error('Pool end timeout')), 5000);
       });
@@ -213,68 +434,48 @@ export class PostgresAdapter<T = unknown> implements PersistenceAdapter<T> {
   }
 
   async withTransaction<R>(
-    callback: (client: PoolClient) => Promise<R>
+    callback: (tx: Transaction<T>) => Promise<R>
   ): Promise<R> {
+    await this.initialize();
+
     const client = await this.ensurePool().connect();
     try {
-      console.log('Starting transaction');
-      await client.query('BEGIN');
-      await client.query('SET TRANSACTION ISOLATION LEVEL SERIALIZABLE');
-      
-      // Wait for any in-progress transactions to complete
-      await client.query('SELECT pg_sleep(0.1)');
-      
-      const result = await callback(client);
-      console.log('Transaction successful, committing');
+      await client.query('BEGIN ISOLATION LEVEL SERIALIZABLE');
+      const result = await callback(this.bindTransaction(client));
       await client.query('COMMIT');
       return result;
     } catch (error) {
-      console.log('Transaction failed, rolling back', error);
       try {
-        console.log('Executing ROLLBACK');
-        const rollbackResult = await client.query('ROLLBACK');
-        console.log('ROLLBACK result:', rollbackResult);
-        
-        // Add a small delay to ensure rollback completes
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // Clean up any lingering data
-        console.log('Cleaning up transaction data');
-        await client.query('DISCARD ALL');
-        
-        console.log('Executing DEALLOCATE ALL');
-        const deallocateResult = await client.query('DEALLOCATE ALL');
-        console.log('DEALLOCATE ALL result:', deallocateResult);
+        await client.query('ROLLBACK');
       } catch (rollbackError) {
         // If rollback fails, we still want to release the client and throw the original error
         console.error('Failed to rollback transaction:', rollbackError);
       }
       throw error;
     } finally {
-      console.log('Releasing client');
       client.release();
     }
   }
 
-  private buildJsonbConditions(filter: unknown): { query: string; params: unknown[] } {
-    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
-      // Return a condition that matches nothing
-      return { query: '1=0', params: [] };
-    }
-
-    const conditions: string[] = [];
-    const params: unknown[] = [];
-    let paramIndex = 1;
-
-    for (const [key, value] of Object.entries(filter)) {
-      conditions.push(`${this.dataColumn}->>'${key}' = $${paramIndex}`);
-      params.push(value);
-      paramIndex++;
-    }
-
+  private bindTransaction(client: PoolClient): Transaction<T> {
     return {
-      query: conditions.length > 0 ? conditions.join(' AND ') : '1=1',
-      params
+      save: (key, data, options) => this.save(key, data, options, client),
+      load: key => this.load(key, client),
+      loadWithRevision: key => this.loadWithRevision(key, client),
+      delete: key => this.delete(key, client),
+      query: (filter, options) => this.query(filter, options, client),
+      count: filter => this.count(filter, client),
+      use: <U>(adapter: PersistenceAdapter<U>): Transaction<U> => {
+        if (!(adapter instanceof PostgresAdapter) || adapter.connectionKey() !== this.connectionKey()) {
+          throw new TransactionError('Postgres transactions can only include adapters on the same database');
+        }
+        return adapter.bindTransaction(client);
+      }
     };
   }
-} 
\ No newline at end of file
+
+  private connectionKey(): string {
+    const { connectionString, host, port, database, user } = this.config;
+    return JSON.stringify([connectionString, host, port, database, user]);
+  }
+}
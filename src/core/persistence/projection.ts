@@ -0,0 +1,74 @@
+import { EventStore, PersistenceAdapter, StateEvent, SubscribeOptions, Subscription } from '../types';
+
+export interface Projection<T = unknown> {
+  name: string;
+  streamPattern: string | RegExp;
+  readModel: PersistenceAdapter<T>;
+  // Delivery is at-least-once after a crash, so handlers should be idempotent
+  handle(event: StateEvent, readModel: PersistenceAdapter<T>): Promise<void>;
+}
+
+export interface ProjectionCheckpoint {
+  position: number;
+  updatedAt: number;
+}
+
+// Keeps projection read models up to date from the event store, resuming each
+// projection from its stored checkpoint instead of replaying every stream
+export class ProjectionRunner {
+  private subscriptions = new Map<string, Subscription>();
+
+  constructor(
+    private readonly eventStore: EventStore,
+    private readonly checkpoints: PersistenceAdapter<ProjectionCheckpoint>
+  ) {}
+
+  async start<T>(
+    projection: Projection<T>,
+    options: Omit<SubscribeOptions, 'fromPosition'> = {}
+  ): Promise<Subscription> {
+    if (this.subscriptions.has(projection.name)) {
+      throw new Error(`Projection ${projection.name} is already running`);
+    }
+
+    const checkpoint = await this.checkpoints.load(projection.name);
+    const subscription = this.eventStore.subscribe(
+      projection.streamPattern,
+      async event => {
+        await projection.handle(event, projection.readModel);
+        await this.checkpoints.save(projection.name, {
+          position: event.position ?? 0,
+          updatedAt: Date.now()
+        });
+      },
+      { ...options, fromPosition: checkpoint ? checkpoint.position : 0 }
+    );
+
+    this.subscriptions.set(projection.name, subscription);
+    return subscription;
+  }
+
+  async getCheckpoint(name: string): Promise<ProjectionCheckpoint | null> {
+    return this.checkpoints.load(name);
+  }
+
+  // Forget a projection's progress so the next start replays from the beginning
+  async reset(name: string): Promise<void> {
+    await this.stop(name);
+    await this.checkpoints.delete(name);
+  }
+
+  async stop(name: string): Promise<void> {
+    const subscription = this.subscriptions.get(name);
+    if (subscription) {
+      await subscription.stop();
+      this.subscriptions.delete(name);
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    for (const name of Array.from(this.subscriptions.keys())) {
+      await this.stop(name);
+    }
+  }
+}
@@ -0,0 +1,514 @@
+import { FilterValue, QueryOptions } from '../types';
+import { QueryError } from './errors';
+
+export type FilterOperator = '$eq' | '$ne' | '$gt' | '$gte' | '$lt' | '$lte' | '$in' | '$contains';
+
+export interface Condition {
+  path: string[];
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface SortField {
+  path: string[];
+  direction: 'asc' | 'desc';
+}
+
+const OPERATORS: FilterOperator[] = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$contains'];
+
+const COMPARISONS: Record<string, string> = {
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<='
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is FilterValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+// Filters that aren't objects match nothing
+export function isValidFilter(filter: unknown): filter is Record<string, unknown> {
+  return isPlainObject(filter);
+}
+
+export function parsePath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some(segment => segment === '')) {
+    throw new QueryError(`Invalid field path: ${path}`);
+  }
+  return segments;
+}
+
+// Indexed paths are written into SQL as literals so the planner can match
+// them against the index expression, which limits them to word characters
+export function parseIndexPath(path: string): string[] {
+  const segments = parsePath(path);
+  const invalid = segments.find(segment => !/^\w+$/.test(segment));
+  if (invalid !== undefined) {
+    throw new QueryError(`Indexed field names may only contain letters, digits and underscores: ${path}`);
+  }
+  return segments;
+}
+
+export function indexName(table: string, path: string[]): string {
+  return `${table}_${path.join('__')}_idx`;
+}
+
+export function parseFilter(filter: Record<string, unknown>, prefix: string[] = []): Condition[] {
+  const conditions: Condition[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    const path = [...prefix, ...parsePath(key)];
+
+    if (!isPlainObject(value)) {
+      conditions.push(parseCondition(path, '$eq', value));
+      continue;
+    }
+
+    const keys = Object.keys(value);
+    const operatorKeys = keys.filter(k => k.startsWith('$'));
+
+    if (operatorKeys.length === 0) {
+      conditions.push(...parseFilter(value, path));
+    } else if (operatorKeys.length === keys.length) {
+      for (const operator of operatorKeys) {
+        conditions.push(parseCondition(path, operator, value[operator]));
+      }
+    } else {
+      throw new QueryError(`Cannot mix operators and fields in filter for ${path.join('.')}`);
+    }
+  }
+
+  return conditions;
+}
+
+function parseCondition(path: string[], operator: string, value: unknown): Condition {
+  const field = path.join('.');
+
+  if (!OPERATORS.includes(operator as FilterOperator)) {
+    throw new QueryError(`Unknown filter operator ${operator} for ${field}`);
+  }
+
+  switch (operator) {
+    case '$in':
+      if (!Array.isArray(value) || !value.every(isScalar)) {
+        throw new QueryError(`$in for ${field} must be an array of strings, numbers, booleans or null`);
+      }
+      break;
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+      if (typeof value !== 'number' && typeof value !== 'string') {
+        throw new QueryError(`${operator} for ${field} must be a number or string`);
+      }
+      break;
+    default:
+      if (!isScalar(value)) {
+        throw new QueryError(`${operator} for ${field} must be a string, number, boolean or null`);
+      }
+  }
+
+  return { path, operator: operator as FilterOperator, value };
+}
+
+export function parseSort(sort: QueryOptions['sort'] = {}): SortField[] {
+  return Object.entries(sort).map(([key, direction]) => {
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new QueryError(`Invalid sort direction for ${key}: ${direction}`);
+    }
+    return { path: parsePath(key), direction };
+  });
+}
+
+function validatePaging(options: QueryOptions): void {
+  for (const name of ['limit', 'offset'] as const) {
+    const value = options[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new QueryError(`${name} must be a non-negative integer`);
+    }
+  }
+}
+
+export interface BuiltQuery {
+  where: string;
+  orderBy: string;
+  limit: string;
+  params: unknown[];
+}
+
+// Translates the shared filter format into SQL. Both dialects compare values
+// type-strictly (the number 30 never matches the string '30'), treat missing
+// fields as null, and sort nulls before numbers before strings.
+export abstract class QueryBuilder {
+  protected params: unknown[] = [];
+  private readonly indexed: Set<string>;
+
+  // Column names are written into SQL as given; adapters pass them quoted
+  constructor(
+    protected readonly dataColumn: string,
+    protected readonly keyColumn: string,
+    indexes: string[][] = []
+  ) {
+    this.indexed = new Set(indexes.map(path => path.join('.')));
+  }
+
+  // The expression an index on this path must use for queries to hit it
+  abstract indexExpression(path: string[]): string;
+
+  build(filter: Record<string, unknown>, options: QueryOptions = {}): BuiltQuery {
+    this.params = [];
+
+    const conditions = parseFilter(filter).map(condition => this.condition(condition));
+    const sort = parseSort(options.sort);
+    validatePaging(options);
+
+    const ordering = sort.map(field => this.orderBy(field));
+    // Keep paging stable when sort values tie
+    if (ordering.length > 0 || options.limit !== undefined || options.offset !== undefined) {
+      ordering.push(`${this.keyColumn} ASC`);
+    }
+
+    return {
+      where: conditions.length > 0 ? conditions.join(' AND ') : '1=1',
+      orderBy: ordering.length > 0 ? `ORDER BY ${ordering.join(', ')}` : '',
+      limit: this.limit(options.limit, options.offset),
+      params: this.params
+    };
+  }
+
+  protected param(value: unknown): string {
+    this.params.push(value);
+    return this.placeholder(this.params.length);
+  }
+
+  protected condition(condition: Condition): string {
+    const { path, operator, value } = condition;
+
+    switch (operator) {
+      case '$eq':
+        return this.equals(path, value as FilterValue);
+      case '$ne':
+        return `NOT COALESCE((${this.equals(path, value as FilterValue)}), ${this.falseLiteral()})`;
+      case '$in': {
+        const values = value as FilterValue[];
+        if (values.length === 0) return '1=0';
+        return `(${values.map(v => this.equals(path, v)).join(' OR ')})`;
+      }
+      case '$contains':
+        return this.contains(path, value as FilterValue);
+      default:
+        return this.compare(path, COMPARISONS[operator], value as number | string);
+    }
+  }
+
+  protected isIndexed(path: string[]): boolean {
+    return this.indexed.has(path.join('.'));
+  }
+
+  protected abstract placeholder(index: number): string;
+  protected abstract falseLiteral(): string;
+  protected abstract equals(path: string[], value: FilterValue): string;
+  protected abstract compare(path: string[], operator: string, value: number | string): string;
+  protected abstract contains(path: string[], value: FilterValue): string;
+  protected abstract orderBy(field: SortField): string;
+  protected abstract limit(limit?: number, offset?: number): string;
+}
+
+export class PostgresQueryBuilder extends QueryBuilder {
+  protected placeholder(index: number): string {
+    return `$${index}`;
+  }
+
+  protected falseLiteral(): string {
+    return 'false';
+  }
+
+  indexExpression(path: string[]): string {
+    return this.field(this.pathLiteral(path));
+  }
+
+  // Paths are bound as text[] parameters, except indexed paths, which were
+  // validated by parseIndexPath and are inlined to match the index
+  private path(path: string[]): string {
+    return this.isIndexed(path) ? this.pathLiteral(path) : this.param(path);
+  }
+
+  private pathLiteral(path: string[]): string {
+    return `'{${path.join(',')}}'`;
+  }
+
+  private field(path: string): string {
+    return `${this.dataColumn} #> ${path}::text[]`;
+  }
+
+  private text(path: string): string {
+    return `${this.dataColumn} #>> ${path}::text[]`;
+  }
+
+  protected equals(path: string[], value: FilterValue): string {
+    const field = this.field(this.path(path));
+    if (value === null) {
+      return `(${field} IS NULL OR ${field} = 'null'::jsonb)`;
+    }
+    return `${field} = ${this.param(JSON.stringify(value))}::jsonb`;
+  }
+
+  // Numbers compare as jsonb, which orders them numerically and lets an index
+  // on the path serve the range; the type check drops the other JSON types
+  // that jsonb orders around them. Strings need byte order rather than the
+  // database collation jsonb uses, so string ranges can't use the index.
+  protected compare(path: string[], operator: string, value: number | string): string {
+    const bound = this.path(path);
+    const field = this.field(bound);
+    if (typeof value === 'number') {
+      return `(jsonb_typeof(${field}) = 'number' AND ${field} ${operator} ${this.param(JSON.stringify(value))}::jsonb)`;
+    }
+    // CASE keeps the text comparison away from non-string values
+    return `CASE WHEN jsonb_typeof(${field}) = 'string' ` +
+      `THEN (${this.text(bound)}) COLLATE "C" ${operator} ${this.param(value)}::text ELSE false END`;
+  }
+
+  protected contains(path: string[], value: FilterValue): string {
+    const bound = this.path(path);
+    const element = `${this.field(bound)} @> jsonb_build_array(${this.param(JSON.stringify(value))}::jsonb)`;
+    const substring = typeof value === 'string'
+      ? `strpos(${this.text(bound)}, ${this.param(value)}::text) > 0`
+      : 'false';
+    return `CASE jsonb_typeof(${this.field(bound)}) ` +
+      `WHEN 'array' THEN ${element} ` +
+      `WHEN 'string' THEN ${substring} ` +
+      'ELSE false END';
+  }
+
+  // Mirrors SQLite's ordering: missing and null, then numbers and booleans, then text
+  protected orderBy(sort: SortField): string {
+    const bound = this.path(sort.path);
+    const field = this.field(bound);
+    const text = this.text(bound);
+    const direction = sort.direction.toUpperCase();
+    return [
+      `CASE COALESCE(jsonb_typeof(${field}), 'null') WHEN 'null' THEN 0 ` +
+        `WHEN 'number' THEN 1 WHEN 'boolean' THEN 1 ELSE 2 END ${direction}`,
+      `CASE jsonb_typeof(${field}) WHEN 'number' THEN (${text})::numeric ` +
+        `WHEN 'boolean' THEN CASE WHEN (${text}) = 'true' THEN 1 ELSE 0 END END ${direction}`,
+      `(${text}) COLLATE "C" ${direction}`
+    ].join(', ');
+  }
+
+  protected limit(limit?: number, offset?: number): string {
+    const clauses: string[] = [];
+    if (limit !== undefined) clauses.push(`LIMIT ${this.param(limit)}`);
+    if (offset !== undefined) clauses.push(`OFFSET ${this.param(offset)}`);
+    return clauses.join(' ');
+  }
+}
+
+export class SQLiteQueryBuilder extends QueryBuilder {
+  // Numbered placeholders, so a bound path can be referenced more than once
+  protected placeholder(index: number): string {
+    return `?${index}`;
+  }
+
+  protected falseLiteral(): string {
+    return '0';
+  }
+
+  indexExpression(path: string[]): string {
+    return `json_extract(${this.dataColumn}, ${this.pathExpression(path, text => `'${text}'`)})`;
+  }
+
+  // Paths are bound as JSON path parameters, except indexed paths, which were
+  // validated by parseIndexPath and are inlined to match the index
+  private jsonPath(path: string[]): string {
+    return this.isIndexed(path)
+      ? this.pathExpression(path, text => `'${text}'`)
+      : this.pathExpression(path, text => this.param(text));
+  }
+
+  // A numeric segment names an array element or an object key, whichever the
+  // parent holds, as in Postgres. SQLite paths spell the two differently, so
+  // the choice is made per row from the parent's JSON type.
+  private pathExpression(path: string[], literal: (text: string) => string): string {
+    let expression = '';
+    let text = '$';
+    for (const segment of path) {
+      if (!/^\d+$/.test(segment)) {
+        text += this.label(segment);
+        continue;
+      }
+      const parent = expression ? `${expression} || ${literal(text)}` : literal(text);
+      expression = `${parent} || CASE json_type(${this.dataColumn}, ${parent}) ` +
+        `WHEN 'array' THEN '[${segment}]' ELSE '."${segment}"' END`;
+      text = '';
+    }
+    if (!expression) return literal(text);
+    return text ? `${expression} || ${literal(text)}` : expression;
+  }
+
+  private label(segment: string): string {
+    // SQLite JSON paths have no escape for quotes inside a quoted label
+    if (segment.includes('"')) {
+      throw new QueryError(`Field names containing quotes are not supported: ${segment}`);
+    }
+    return `."${segment}"`;
+  }
+
+  // json_extract returns 1/0 for booleans, so JSON types are checked explicitly
+  private matches(type: string, extracted: string, value: FilterValue): string {
+    if (value === null) return `${type} = 'null'`;
+    if (typeof value === 'boolean') return `${type} = '${value ? 'true' : 'false'}'`;
+    if (typeof value === 'number') return `(${type} IN ('integer', 'real') AND ${extracted} = ${this.param(value)})`;
+    return `(${type} = 'text' AND ${extracted} = ${this.param(value)})`;
+  }
+
+  protected equals(path: string[], value: FilterValue): string {
+    const bound = this.jsonPath(path);
+    const type = `json_type(${this.dataColumn}, ${bound})`;
+    if (value === null) {
+      return `(${type} IS NULL OR ${type} = 'null')`;
+    }
+    return this.matches(type, `json_extract(${this.dataColumn}, ${bound})`, value);
+  }
+
+  protected compare(path: string[], operator: string, value: number | string): string {
+    const bound = this.jsonPath(path);
+    const types = typeof value === 'number' ? `IN ('integer', 'real')` : `= 'text'`;
+    return `(json_type(${this.dataColumn}, ${bound}) ${types} ` +
+      `AND json_extract(${this.dataColumn}, ${bound}) ${operator} ${this.param(value)})`;
+  }
+
+  protected contains(path: string[], value: FilterValue): string {
+    const bound = this.jsonPath(path);
+    const element = this.matches('element.type', 'element.value', value);
+    const substring = typeof value === 'string'
+      ? `instr(json_extract(${this.dataColumn}, ${bound}), ${this.param(value)}) > 0`
+      : '0';
+    return `CASE json_type(${this.dataColumn}, ${bound}) ` +
+      `WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(${this.dataColumn}, ${bound}) AS element WHERE ${element}) ` +
+      `WHEN 'text' THEN ${substring} ` +
+      'ELSE 0 END';
+  }
+
+  protected orderBy(sort: SortField): string {
+    return `json_extract(${this.dataColumn}, ${this.jsonPath(sort.path)}) ${sort.direction.toUpperCase()}`;
+  }
+
+  protected limit(limit?: number, offset?: number): string {
+    if (limit === undefined && offset === undefined) return '';
+    const clause = `LIMIT ${this.param(limit === undefined ? -1 : limit)}`;
+    return offset === undefined ? clause : `${clause} OFFSET ${this.param(offset)}`;
+  }
+}
+
+function resolvePath(record: unknown, path: string[]): unknown {
+  let current = record;
+  for (const segment of path) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function equalsValue(field: unknown, value: FilterValue): boolean {
+  if (value === null) return field === null || field === undefined;
+  return field === value;
+}
+
+function matchesCondition(record: unknown, condition: Condition): boolean {
+  const field = resolvePath(record, condition.path);
+  const value = condition.value;
+
+  switch (condition.operator) {
+    case '$eq':
+      return equalsValue(field, value as FilterValue);
+    case '$ne':
+      return !equalsValue(field, value as FilterValue);
+    case '$in':
+      return (value as FilterValue[]).some(v => equalsValue(field, v));
+    case '$contains':
+      if (Array.isArray(field)) return field.some(element => equalsValue(element, value as FilterValue));
+      return typeof field === 'string' && typeof value === 'string' && field.includes(value);
+    default: {
+      // Like the SQL builders, only values of the same type are comparable
+      if (typeof field !== typeof value) return false;
+      const order = typeof field === 'string'
+        ? compareText(field, value as string)
+        : (field as number) - (value as number);
+      switch (condition.operator) {
+        case '$gt': return order > 0;
+        case '$gte': return order >= 0;
+        case '$lt': return order < 0;
+        default: return order <= 0;
+      }
+    }
+  }
+}
+
+// Missing and null, then numbers and booleans, then everything else as text
+function sortKey(value: unknown): [number, number, string] {
+  if (value === undefined || value === null) return [0, 0, ''];
+  if (typeof value === 'number') return [1, value, ''];
+  if (typeof value === 'boolean') return [1, value ? 1 : 0, ''];
+  return [2, 0, typeof value === 'string' ? value : JSON.stringify(value)];
+}
+
+// Byte order of the UTF-8 encoding, as SQLite's BINARY and Postgres's "C"
+// collations compare; JS operators compare UTF-16 code units, which puts
+// characters outside the BMP before U+E000-U+FFFF
+function compareText(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+function compareKeys(a: [number, number, string], b: [number, number, string]): number {
+  return a[0] - b[0] || a[1] - b[1] || compareText(a[2], b[2]);
+}
+
+// Applies a filter and options to in-memory records with the same semantics
+// as the SQL builders, for adapters that keep data outside a database
+export function evaluateQuery<T>(
+  records: Iterable<[string, T]>,
+  filter: Record<string, unknown>,
+  options: QueryOptions = {}
+): T[] {
+  return matchingEntries(records, filter, options).map(([, record]) => record);
+}
+
+// Like evaluateQuery, but keeps each record's key
+export function matchingEntries<T>(
+  records: Iterable<[string, T]>,
+  filter: Record<string, unknown>,
+  options: QueryOptions = {}
+): Array<[string, T]> {
+  const conditions = parseFilter(filter);
+  const sort = parseSort(options.sort);
+  validatePaging(options);
+
+  let matched = Array.from(records).filter(([, record]) =>
+    conditions.every(condition => matchesCondition(record, condition))
+  );
+
+  if (sort.length > 0 || options.limit !== undefined || options.offset !== undefined) {
+    matched = matched.sort(([keyA, a], [keyB, b]) => {
+      for (const field of sort) {
+        const order = compareKeys(sortKey(resolvePath(a, field.path)), sortKey(resolvePath(b, field.path)));
+        if (order !== 0) return field.direction === 'asc' ? order : -order;
+      }
+      return compareText(keyA, keyB);
+    });
+  }
+
+  const start = options.offset ?? 0;
+  const end = options.limit === undefined ? undefined : start + options.limit;
+  return matched.slice(start, end);
+}
@@ -0,0 +1,20 @@
+import { SaveOptions } from '../types';
+
+export function validateSaveOptions(options: SaveOptions): void {
+  const { ifRevision, ttlMs } = options;
+  if (ifRevision !== undefined && (!Number.isInteger(ifRevision) || ifRevision < 0)) {
+    throw new Error('ifRevision must be a non-negative integer');
+  }
+  if (ttlMs !== undefined && !(Number.isFinite(ttlMs) && ttlMs > 0)) {
+    throw new Error('ttlMs must be a positive number');
+  }
+}
+
+// Expiry time in epoch milliseconds, or null for records that never expire
+export function expiryTime(options: SaveOptions, now = Date.now()): number | null {
+  return options.ttlMs === undefined ? null : now + options.ttlMs;
+}
+
+export function isExpired(expiresAt: number | null | undefined, now = Date.now()): boolean {
+  return expiresAt !== null && expiresAt !== undefined && expiresAt <= now;
+}
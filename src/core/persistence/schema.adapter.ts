@@ -0,0 +1,127 @@
+import { PersistenceAdapter, QueryOptions, Revisioned, SaveOptions, ScanOptions, Transaction } from '../types';
+import { SchemaValidationError } from './errors';
+import { RecordSchema, SchemaDefinition, SchemaIssue } from './schema';
+
+// Upgrades a stored record that no longer matches the schema. The result is
+// checked again; the stored record is left alone until it is next saved.
+export type SchemaMigration<T> = (data: unknown, issues: SchemaIssue[]) => T;
+
+export interface SchemaAdapterOptions<T> {
+  schema: RecordSchema | SchemaDefinition;
+  migrate?: SchemaMigration<T>;
+}
+
+// Checks records against a runtime schema on their way into and out of
+// another adapter. Saves that don't match are rejected; loaded records that
+// don't match are passed to `migrate`, or rejected when there is none.
+export class SchemaAdapter<T = unknown> implements PersistenceAdapter<T> {
+  private readonly schema: RecordSchema;
+  private readonly migrate?: SchemaMigration<T>;
+
+  constructor(private readonly adapter: PersistenceAdapter<T>, options: SchemaAdapterOptions<T>) {
+    this.schema = options.schema instanceof RecordSchema ? options.schema : new RecordSchema(options.schema);
+    this.migrate = options.migrate;
+  }
+
+  async save(key: string, data: T, options?: SaveOptions): Promise<number> {
+    return this.adapter.save(key, this.checkWrite(key, data), options);
+  }
+
+  async load(key: string): Promise<T | null> {
+    return this.checkRead(await this.adapter.load(key), key);
+  }
+
+  async loadWithRevision(key: string): Promise<Revisioned<T> | null> {
+    return this.checkRevisioned(await this.adapter.loadWithRevision(key), key);
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.adapter.delete(key);
+  }
+
+  async query(filter: unknown, options?: QueryOptions): Promise<T[]> {
+    const records = await this.adapter.query(filter, options);
+    return records.map(record => this.checkRead(record) as T);
+  }
+
+  async count(filter: unknown): Promise<number> {
+    return this.adapter.count(filter);
+  }
+
+  async saveMany(entries: Array<[string, T]>, options?: Omit<SaveOptions, 'ifRevision'>): Promise<number[]> {
+    for (const [key, data] of entries) {
+      this.checkWrite(key, data);
+    }
+    return this.adapter.saveMany(entries, options);
+  }
+
+  async loadMany(keys: string[]): Promise<Map<string, T>> {
+    const records = await this.adapter.loadMany(keys);
+    return new Map(Array.from(records, ([key, data]) => [key, this.checkRead(data, key) as T]));
+  }
+
+  async deleteMany(keys: string[]): Promise<number> {
+    return this.adapter.deleteMany(keys);
+  }
+
+  async *scan(filter?: unknown, options?: ScanOptions): AsyncIterableIterator<[string, T]> {
+    for await (const [key, data] of this.adapter.scan(filter, options)) {
+      yield [key, this.checkRead(data, key) as T];
+    }
+  }
+
+  async sweep(): Promise<number> {
+    return this.adapter.sweep();
+  }
+
+  async disconnect(): Promise<void> {
+    if ('disconnect' in this.adapter) {
+      await (this.adapter as { disconnect(): Promise<void> }).disconnect();
+    }
+  }
+
+  async withTransaction<R>(callback: (tx: Transaction<T>) => Promise<R>): Promise<R> {
+    return this.adapter.withTransaction(tx => callback(this.bindTransaction(tx)));
+  }
+
+  private bindTransaction(tx: Transaction<T>): Transaction<T> {
+    return {
+      save: (key, data, options) => tx.save(key, this.checkWrite(key, data), options),
+      load: async key => this.checkRead(await tx.load(key), key),
+      loadWithRevision: async key => this.checkRevisioned(await tx.loadWithRevision(key), key),
+      delete: key => tx.delete(key),
+      query: async (filter, options) => (await tx.query(filter, options)).map(record => this.checkRead(record) as T),
+      count: filter => tx.count(filter),
+      // Other schema adapters join through the adapter they wrap
+      use: <U>(adapter: PersistenceAdapter<U>): Transaction<U> => adapter instanceof SchemaAdapter
+        ? adapter.bindTransaction(tx.use(adapter.adapter))
+        : tx.use(adapter)
+    };
+  }
+
+  private checkWrite(key: string, data: T): T {
+    const issues = this.schema.validate(data);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues, key);
+    }
+    return data;
+  }
+
+  private checkRead(data: T | null, key?: string): T | null {
+    if (data === null) return null;
+
+    let issues = this.schema.validate(data);
+    if (issues.length > 0 && this.migrate) {
+      data = this.migrate(data, issues);
+      issues = this.schema.validate(data);
+    }
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues, key);
+    }
+    return data;
+  }
+
+  private checkRevisioned(record: Revisioned<T> | null, key: string): Revisioned<T> | null {
+    return record && { data: this.checkRead(record.data, key) as T, revision: record.revision };
+  }
+}
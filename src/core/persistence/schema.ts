@@ -0,0 +1,230 @@
+import { Intent } from '../types';
+
+// Field names mapped to type strings or nested definitions, in the same shape
+// as Intent.dataStructure: { count: 'number', owner: { id: 'number' } }.
+// Fields ending in '?' are optional.
+export type SchemaDefinition = Record<string, unknown>;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+type TypeNode =
+  | { kind: 'any' }
+  | { kind: 'primitive'; name: Primitive }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; items: TypeNode }
+  | { kind: 'record'; values: TypeNode }
+  | { kind: 'union'; options: TypeNode[]; text: string }
+  | { kind: 'object'; fields: FieldNode[] };
+
+interface FieldNode {
+  name: string;
+  optional: boolean;
+  type: TypeNode;
+}
+
+type Primitive = 'string' | 'number' | 'boolean' | 'null' | 'undefined' | 'object';
+
+const PRIMITIVES: Primitive[] = ['string', 'number', 'boolean', 'null', 'undefined', 'object'];
+
+const DESCRIPTIONS: Record<Primitive, string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'a boolean',
+  null: 'null',
+  undefined: 'undefined',
+  object: 'an object'
+};
+
+const OPENERS: Record<string, string> = { '<': '>', '(': ')', '{': '}', '[': ']' };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Splits on a separator outside of brackets and quotes
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  const closers: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (OPENERS[char]) {
+      closers.push(OPENERS[char]);
+    } else if (char === closers[closers.length - 1]) {
+      closers.pop();
+    } else if (char === separator && closers.length === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  if (quote || closers.length > 0) {
+    throw new Error(`Unbalanced schema type: ${text}`);
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+function isWrapped(text: string): boolean {
+  if (!text.startsWith('(') || !text.endsWith(')')) return false;
+  return splitTopLevel(text.slice(1, -1), ')').length === 1;
+}
+
+// Reads the TypeScript-like type strings used in Intent.dataStructure. Named
+// types such as 'User' can't be checked at runtime and accept any value.
+function parseType(text: string): TypeNode {
+  text = text.trim();
+
+  const members = splitTopLevel(text, '|');
+  if (members.length > 1) {
+    return { kind: 'union', options: members.map(parseType), text };
+  }
+  if (isWrapped(text)) {
+    return parseType(text.slice(1, -1));
+  }
+  if (text.endsWith('[]')) {
+    return { kind: 'array', items: parseType(text.slice(0, -2)) };
+  }
+
+  const generic = /^([A-Za-z_$][\w$.]*)\s*<(.*)>$/s.exec(text);
+  if (generic) {
+    const args = splitTopLevel(generic[2], ',');
+    if (generic[1] === 'Array' && args.length === 1) {
+      return { kind: 'array', items: parseType(args[0]) };
+    }
+    if (generic[1] === 'Record' && args.length === 2) {
+      return { kind: 'record', values: parseType(args[1]) };
+    }
+    return { kind: 'any' };
+  }
+
+  const quoted = /^(['"])(.*)\1$/s.exec(text);
+  if (quoted) return { kind: 'literal', value: quoted[2] };
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { kind: 'literal', value: Number(text) };
+  if (text === 'true' || text === 'false') return { kind: 'literal', value: text === 'true' };
+  if (PRIMITIVES.includes(text as Primitive)) return { kind: 'primitive', name: text as Primitive };
+  if (text.startsWith('{')) return { kind: 'primitive', name: 'object' };
+  if (/^[A-Za-z_$][\w$.]*$/.test(text)) return { kind: 'any' };
+
+  throw new Error(`Invalid schema type: ${text}`);
+}
+
+function parseDefinition(definition: unknown, path: string): TypeNode {
+  if (typeof definition === 'string') {
+    return parseType(definition);
+  }
+  if (Array.isArray(definition) && definition.length === 1) {
+    return { kind: 'array', items: parseDefinition(definition[0], `${path}[]`) };
+  }
+  if (isPlainObject(definition)) {
+    return {
+      kind: 'object',
+      fields: Object.entries(definition).map(([key, value]) => {
+        const optional = key.endsWith('?');
+        const name = optional ? key.slice(0, -1) : key;
+        return { name, optional, type: parseDefinition(value, path ? `${path}.${name}` : name) };
+      })
+    };
+  }
+  throw new Error(`Invalid schema definition for ${path || 'record'}`);
+}
+
+function describe(type: TypeNode): string {
+  switch (type.kind) {
+    case 'primitive':
+      return DESCRIPTIONS[type.name];
+    case 'literal':
+      return JSON.stringify(type.value);
+    case 'array':
+      return 'an array';
+    case 'union':
+      return type.text;
+    default:
+      return 'an object';
+  }
+}
+
+function check(type: TypeNode, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const fail = () => issues.push({ path, message: `${path || 'record'} must be ${describe(type)}` });
+
+  switch (type.kind) {
+    case 'any':
+      return;
+
+    case 'primitive': {
+      const valid = type.name === 'null' ? value === null
+        : type.name === 'object' ? isPlainObject(value)
+        : type.name === 'number' ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === type.name;
+      if (!valid) fail();
+      return;
+    }
+
+    case 'literal':
+      if (value !== type.value) fail();
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) return void fail();
+      value.forEach((item, index) => check(type.items, item, `${path}[${index}]`, issues));
+      return;
+
+    case 'record':
+      if (!isPlainObject(value)) return void fail();
+      for (const [key, item] of Object.entries(value)) {
+        check(type.values, item, path ? `${path}.${key}` : key, issues);
+      }
+      return;
+
+    case 'union':
+      if (!type.options.some(option => validate(option, value).length === 0)) fail();
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) return void fail();
+      for (const field of type.fields) {
+        const fieldPath = path ? `${path}.${field.name}` : field.name;
+        if (value[field.name] === undefined) {
+          if (!field.optional && validate(field.type, undefined).length > 0) {
+            issues.push({ path: fieldPath, message: `${fieldPath} is required` });
+          }
+          continue;
+        }
+        check(field.type, value[field.name], fieldPath, issues);
+      }
+      return;
+  }
+}
+
+function validate(type: TypeNode, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(type, value, '', issues);
+  return issues;
+}
+
+// A runtime check for persisted records. Fields not in the definition are
+// allowed, so records can carry data the schema doesn't describe.
+export class RecordSchema {
+  private readonly root: TypeNode;
+
+  constructor(definition: SchemaDefinition) {
+    this.root = parseDefinition(definition, '');
+  }
+
+  static fromIntent(intent: Intent): RecordSchema {
+    return new RecordSchema(intent.dataStructure);
+  }
+
+  validate(value: unknown): SchemaIssue[] {
+    return validate(this.root, value);
+  }
+}
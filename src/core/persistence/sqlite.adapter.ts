@@ -1,11 +1,19 @@
 import { Database, RunResult } from 'sqlite3';
-import { PersistenceAdapter } from '../types';
+import { PersistenceAdapter, QueryOptions, Revisioned, SaveOptions, ScanOptions, Transaction } from '../types';
+import { assertUniqueKeys, scanBatchSize } from './bulk';
+import { ConnectionRegistry } from './connections';
+import { RevisionConflictError, TransactionError } from './errors';
+import { quoteIdentifier, validateIdentifier } from './identifiers';
+import { SQLiteQueryBuilder, indexName, isValidFilter, parseIndexPath } from './query';
+import { expiryTime, validateSaveOptions } from './save-options';
 
 export interface SQLiteAdapterConfig {
   filename: string;
   table: string;
   keyColumn?: string;
   dataColumn?: string;
+  // Data paths ('status', 'owner.id') to create expression indexes for
+  indexes?: string[];
 }
 
 interface DataRow {
@@ -15,34 +23,48 @@ interface DataRow {
 export class SQLiteAdapter<T = unknown> implements PersistenceAdapter<T> {
   private db: Database;
   private readonly table: string;
+  // Quoted for use in SQL
+  private readonly target: string;
   private readonly keyColumn: string;
   private readonly dataColumn: string;
+  private readonly indexes: string[][];
   private isInitialized = false;
+  // The shared handle is reference counted, so each adapter releases it once
+  private released = false;
 
   constructor(private config: SQLiteAdapterConfig) {
-    this.table = config.table;
-    this.keyColumn = config.keyColumn || 'key';
-    this.dataColumn = config.dataColumn || 'data';
-    this.db = new Database(config.filename);
+    this.table = validateIdentifier(config.table, 'table');
+    this.target = quoteIdentifier(this.table);
+    this.keyColumn = quoteIdentifier(config.keyColumn || 'key', 'column');
+    this.dataColumn = quoteIdentifier(config.dataColumn || 'data', 'column');
+    this.indexes = (config.indexes || []).map(parseIndexPath);
+    this.db = ConnectionRegistry.openSQLite(config.filename);
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
+    await ConnectionRegistry.withSQLite(this.db, () => this.createTable(this.db));
+    this.isInitialized = true;
+  }
+
+  private async createTable(db: Database): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       // Create table if it doesn't exist
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS ${this.table} (
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${this.target} (
           ${this.keyColumn} TEXT PRIMARY KEY,
           ${this.dataColumn} TEXT NOT NULL,
+          revision INTEGER NOT NULL DEFAULT 1,
+          expires_at INTEGER,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
         );
 
-        CREATE TRIGGER IF NOT EXISTS ${this.table}_updated_at
-        AFTER UPDATE ON ${this.table}
+        CREATE TRIGGER IF NOT EXISTS ${quoteIdentifier(`${this.table}_updated_at`)}
+        AFTER UPDATE ON ${this.target}
         BEGIN
-          UPDATE ${this.table} 
+          UPDATE ${this.target} 
           SET updated_at = CURRENT_TIMESTAMP
           WHERE ${this.keyColumn} = NEW.${this.keyColumn};
         END;
@@ -52,135 +74,401 @@ export class SQLiteAdapter<T = unknown> implements PersistenceAdapter<T> {
       });
     });
 
-    this.isInitialized = true;
+    // Add columns introduced after the table was first created
+    const columns = await new Promise<DataRow[]>((resolve, reject) => {
+      db.all(`PRAGMA table_info(${this.target})`, (err: Error | null, rows: DataRow[]) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+    const added: Record<string, string> = {
+      revision: 'INTEGER NOT NULL DEFAULT 1',
+      expires_at: 'INTEGER'
+    };
+    const statements = Object.entries(added)
+      .filter(([name]) => !columns.some(column => column.name === name))
+      .map(([name, definition]) => `ALTER TABLE ${this.target} ADD COLUMN ${name} ${definition};`);
+    statements.push(`CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${this.table}_expires_at`)} ON ${this.target} (expires_at);`);
+    const builder = this.queryBuilder();
+    for (const path of this.indexes) {
+      statements.push(
+        `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(indexName(this.table, path))} ` +
+        `ON ${this.target} (${builder.indexExpression(path)});`
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(statements.join('\n'), (err: Error | null) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
   }
 
-  async save(key: string, data: T): Promise<void> {
-    await this.initialize();
+  private queryBuilder(): SQLiteQueryBuilder {
+    return new SQLiteQueryBuilder(this.dataColumn, this.keyColumn, this.indexes);
+  }
 
-    return new Promise<void>((resolve, reject) => {
-      const stmt = this.db.prepare(`
-        INSERT OR REPLACE INTO ${this.table} (${this.keyColumn}, ${this.dataColumn})
-        VALUES (?, ?);
-      `);
+  // Rows whose expires_at (epoch milliseconds) has passed are hidden from reads
+  private live(nowParam: string): string {
+    return `(expires_at IS NULL OR expires_at > ${nowParam})`;
+  }
 
-      stmt.run(key, JSON.stringify(data), (err: Error | null) => {
-        stmt.finalize();
-        if (err) reject(err);
-        else resolve();
+  // Adapters on the same file share one handle. Operations wait their turn
+  // on it, outside any open transaction; those given the transaction's
+  // connection run inside it. A table created there is rolled back with the
+  // transaction, so it doesn't count as initialized.
+  private withConnection<R>(db: Database | undefined, work: (conn: Database) => Promise<R>): Promise<R> {
+    const conn = db || this.db;
+    return ConnectionRegistry.withSQLite(conn, async () => {
+      if (db && !this.isInitialized) {
+        await this.createTable(db);
+      } else {
+        await this.initialize();
+      }
+      return work(conn);
+    });
+  }
+
+  async save(key: string, data: T, options: SaveOptions = {}, db?: Database): Promise<number> {
+    validateSaveOptions(options);
+    return this.withConnection(db, async conn => {
+      const { ifRevision } = options;
+      const params: unknown[] = [key, JSON.stringify(data), expiryTime(options), Date.now()];
+      if (ifRevision !== undefined && ifRevision > 0) {
+        params.push(ifRevision);
+      }
+      const sql = this.saveSql(ifRevision);
+
+      const row = await new Promise<DataRow | undefined>((resolve, reject) => {
+        const stmt = conn.prepare(sql);
+        stmt.get(...params, (err: Error | null, row: DataRow | undefined) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve(row);
+        });
+      });
+
+      if (!row) {
+        const current = await this.loadWithRevision(key, conn);
+        throw new RevisionConflictError(key, ifRevision as number, current ? current.revision : null);
+      }
+      return row.revision as number;
+    });
+  }
+
+  // ?1 key, ?2 data, ?3 new expiry, ?4 now, ?5 expected revision.
+  // Expired rows count as missing, so their revision starts over.
+  private saveSql(ifRevision: number | undefined): string {
+    const expired = `(expires_at IS NOT NULL AND expires_at <= ?4)`;
+
+    if (ifRevision === undefined) {
+      return `
+        INSERT INTO ${this.target} (${this.keyColumn}, ${this.dataColumn}, revision, expires_at)
+        VALUES (?1, ?2, 1, ?3)
+        ON CONFLICT (${this.keyColumn})
+        DO UPDATE SET
+          ${this.dataColumn} = excluded.${this.dataColumn},
+          expires_at = excluded.expires_at,
+          revision = CASE WHEN ${expired} THEN 1 ELSE revision + 1 END
+        RETURNING revision;
+      `;
+    }
+    if (ifRevision === 0) {
+      return `
+        INSERT INTO ${this.target} (${this.keyColumn}, ${this.dataColumn}, revision, expires_at)
+        VALUES (?1, ?2, 1, ?3)
+        ON CONFLICT (${this.keyColumn})
+        DO UPDATE SET
+          ${this.dataColumn} = excluded.${this.dataColumn},
+          expires_at = excluded.expires_at,
+          revision = 1
+        WHERE ${expired}
+        RETURNING revision;
+      `;
+    }
+    return `
+      UPDATE ${this.target}
+      SET ${this.dataColumn} = ?2, expires_at = ?3, revision = revision + 1
+      WHERE ${this.keyColumn} = ?1 AND revision = ?5 AND ${this.live('?4')}
+      RETURNING revision;
+    `;
+  }
+
+  async load(key: string, db?: Database): Promise<T | null> {
+    const record = await this.loadWithRevision(key, db);
+    return record ? record.data : null;
+  }
+
+  async loadWithRevision(key: string, db?: Database): Promise<Revisioned<T> | null> {
+    return this.withConnection(db, async conn => {
+      return new Promise<Revisioned<T> | null>((resolve, reject) => {
+        const stmt = conn.prepare(`
+          SELECT ${this.dataColumn} AS data, revision
+          FROM ${this.target}
+          WHERE ${this.keyColumn} = ? AND ${this.live('?')};
+        `);
+
+        stmt.get(key, Date.now(), (err: Error | null, row: DataRow | undefined) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve(row
+            ? { data: JSON.parse(row.data as string), revision: row.revision as number }
+            : null);
+        });
+      });
+    });
+  }
+
+  async delete(key: string, db?: Database): Promise<void> {
+    return this.withConnection(db, async conn => {
+      return new Promise<void>((resolve, reject) => {
+        const stmt = conn.prepare(`
+          DELETE FROM ${this.target}
+          WHERE ${this.keyColumn} = ?;
+        `);
+
+        stmt.run(key, (err: Error | null) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    });
+  }
+
+  async query(filter: unknown, options: QueryOptions = {}, db?: Database): Promise<T[]> {
+    return this.withConnection(db, async conn => {
+      // Return empty array for invalid filters
+      if (!isValidFilter(filter)) {
+        return [];
+      }
+
+      // Convert filter to SQLite query conditions
+      const built = this.queryBuilder().build(filter, options);
+
+      return new Promise<T[]>((resolve, reject) => {
+        const stmt = conn.prepare(`
+          SELECT ${this.dataColumn} AS data
+          FROM ${this.target}
+          WHERE (${built.where}) AND ${this.live(`?${built.params.length + 1}`)}
+          ${built.orderBy}
+          ${built.limit};
+        `);
+
+        stmt.all(...built.params, Date.now(), (err: Error | null, rows: DataRow[]) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve(rows.map(row => JSON.parse(row.data as string)));
+        });
+      });
+    });
+  }
+
+  async count(filter: unknown, db?: Database): Promise<number> {
+    return this.withConnection(db, async conn => {
+      if (!isValidFilter(filter)) {
+        return 0;
+      }
+
+      const built = this.queryBuilder().build(filter);
+
+      return new Promise<number>((resolve, reject) => {
+        const stmt = conn.prepare(`
+          SELECT COUNT(*) AS count
+          FROM ${this.target}
+          WHERE (${built.where}) AND ${this.live(`?${built.params.length + 1}`)};
+        `);
+
+        stmt.get(...built.params, Date.now(), (err: Error | null, row: DataRow) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve(row.count as number);
+        });
       });
     });
   }
 
-  async load(key: string): Promise<T | null> {
+  // Runs one prepared statement per entry inside a single transaction
+  async saveMany(entries: Array<[string, T]>, options: Omit<SaveOptions, 'ifRevision'> = {}): Promise<number[]> {
+    assertUniqueKeys(entries.map(([key]) => key));
+    validateSaveOptions(options);
     await this.initialize();
 
-    return new Promise<T | null>((resolve, reject) => {
-      const stmt = this.db.prepare(`
-        SELECT ${this.dataColumn}
-        FROM ${this.table}
-        WHERE ${this.keyColumn} = ?;
+    return this.transaction(async db => {
+      const stmt = db.prepare(this.saveSql(undefined));
+      const expiresAt = expiryTime(options);
+      const now = Date.now();
+
+      try {
+        const revisions: number[] = [];
+        for (const [key, data] of entries) {
+          const row = await new Promise<DataRow>((resolve, reject) => {
+            stmt.get(key, JSON.stringify(data), expiresAt, now, (err: Error | null, row: DataRow) => {
+              if (err) reject(err);
+              else resolve(row);
+            });
+          });
+          revisions.push(row.revision as number);
+        }
+        return revisions;
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  async loadMany(keys: string[]): Promise<Map<string, T>> {
+    const rows = await this.withConnection(undefined, db => new Promise<DataRow[]>((resolve, reject) => {
+      const stmt = db.prepare(`
+        SELECT ${this.keyColumn} AS key, ${this.dataColumn} AS data
+        FROM ${this.target}
+        WHERE ${this.keyColumn} IN (SELECT value FROM json_each(?)) AND ${this.live('?')};
       `);
 
-      stmt.get(key, (err: Error | null, row: DataRow | undefined) => {
+      stmt.all(JSON.stringify(keys), Date.now(), (err: Error | null, rows: DataRow[]) => {
         stmt.finalize();
         if (err) reject(err);
-        else resolve(row ? JSON.parse(row[this.dataColumn] as string) : null);
+        else resolve(rows);
       });
-    });
-  }
+    }));
 
-  async delete(key: string): Promise<void> {
-    await this.initialize();
+    return new Map(rows.map(row => [
+      row.key as string,
+      JSON.parse(row.data as string)
+    ]));
+  }
 
-    return new Promise<void>((resolve, reject) => {
-      const stmt = this.db.prepare(`
-        DELETE FROM ${this.table}
-        WHERE ${this.keyColumn} = ?;
+  async deleteMany(keys: string[]): Promise<number> {
+    return this.withConnection(undefined, db => new Promise<number>((resolve, reject) => {
+      const stmt = db.prepare(`
+        DELETE FROM ${this.target}
+        WHERE ${this.keyColumn} IN (SELECT value FROM json_each(?));
       `);
 
-      stmt.run(key, (err: Error | null) => {
+      stmt.run(JSON.stringify(keys), function (this: RunResult, err: Error | null) {
         stmt.finalize();
         if (err) reject(err);
-        else resolve();
+        else resolve(this.changes);
       });
-    });
+    }));
   }
 
-  async query(filter: unknown): Promise<T[]> {
+  // Pages through matching rows in key order, one batch per query
+  async *scan(filter: unknown = {}, options: ScanOptions = {}): AsyncIterableIterator<[string, T]> {
+    const batchSize = scanBatchSize(options);
     await this.initialize();
 
-    // Convert filter to SQLite query conditions
-    const { conditions, params } = this.buildQueryConditions(filter);
+    if (!isValidFilter(filter)) {
+      return;
+    }
+
+    const built = this.queryBuilder().build(filter);
+    const next = built.params.length + 1;
+    let after: string | undefined;
+
+    for (;;) {
+      const rows = await this.withConnection(undefined, db => new Promise<DataRow[]>((resolve, reject) => {
+        const stmt = db.prepare(`
+          SELECT ${this.keyColumn} AS key, ${this.dataColumn} AS data
+          FROM ${this.target}
+          WHERE (${built.where}) AND ${this.live(`?${next}`)}
+          ${after === undefined ? '' : `AND ${this.keyColumn} > ?${next + 2}`}
+          ORDER BY ${this.keyColumn}
+          LIMIT ?${next + 1};
+        `);
+        const params = [...built.params, Date.now(), batchSize];
+        if (after !== undefined) params.push(after);
+
+        stmt.all(...params, (err: Error | null, rows: DataRow[]) => {
+          stmt.finalize();
+          if (err) reject(err);
+          else resolve(rows);
+        });
+      }));
+
+      for (const row of rows) {
+        yield [row.key as string, JSON.parse(row.data as string)];
+      }
+      if (rows.length < batchSize) return;
+      after = rows[rows.length - 1].key as string;
+    }
+  }
 
-    return new Promise<T[]>((resolve, reject) => {
-      const stmt = this.db.prepare(`
-        SELECT ${this.dataColumn}
-        FROM ${this.table}
-        WHERE ${conditions};
+  async sweep(): Promise<number> {
+    return this.withConnection(undefined, db => new Promise<number>((resolve, reject) => {
+      const stmt = db.prepare(`
+        DELETE FROM ${this.target}
+        WHERE expires_at IS NOT NULL AND expires_at <= ?;
       `);
 
-      stmt.all(...params, (err: Error | null, rows: DataRow[]) => {
+      stmt.run(Date.now(), function (this: RunResult, err: Error | null) {
         stmt.finalize();
         if (err) reject(err);
-        else resolve(rows.map(row => JSON.parse(row[this.dataColumn] as string)));
+        else resolve(this.changes);
       });
-    });
+    }));
   }
 
-  private buildQueryConditions(filter: unknown): { conditions: string; params: unknown[] } {
-    if (!filter || typeof filter !== 'object') {
-      return { conditions: '1=1', params: [] };
-    }
+  async disconnect(): Promise<void> {
+    if (this.released) return;
+    this.released = true;
+    await ConnectionRegistry.releaseSQLite(this.db);
+  }
 
-    const conditions: string[] = [];
-    const params: unknown[] = [];
+  // Runs the callback in an immediate transaction on this adapter's
+  // connection. Other statements on the connection, including other
+  // transactions, wait until it ends.
+  async withTransaction<R>(callback: (tx: Transaction<T>) => Promise<R>): Promise<R> {
+    await this.initialize();
+
+    return this.transaction(db => callback(this.bindTransaction(db)));
+  }
 
-    for (const [key, value] of Object.entries(filter)) {
-      conditions.push(`json_extract(${this.dataColumn}, '$.${key}') = ?`);
-      params.push(value);
+  private transaction<R>(work: (db: Database) => Promise<R>): Promise<R> {
+    return ConnectionRegistry.withSQLite(this.db, () => this.runTransaction(work));
+  }
+
+  private async runTransaction<R>(work: (db: Database) => Promise<R>): Promise<R> {
+    await this.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await work(this.db);
+      await this.exec('COMMIT');
+      return result;
+    } catch (error) {
+      await this.exec('ROLLBACK').catch(() => undefined);
+      throw error;
     }
+  }
 
+  private bindTransaction(db: Database): Transaction<T> {
     return {
-      conditions: conditions.length ? conditions.join(' AND ') : '1=1',
-      params
+      save: (key, data, options) => this.save(key, data, options, db),
+      load: key => this.load(key, db),
+      loadWithRevision: key => this.loadWithRevision(key, db),
+      delete: key => this.delete(key, db),
+      query: (filter, options) => this.query(filter, options, db),
+      count: filter => this.count(filter, db),
+      use: <U>(adapter: PersistenceAdapter<U>): Transaction<U> => {
+        if (!(adapter instanceof SQLiteAdapter) || !this.sharesDatabase(adapter)) {
+          throw new TransactionError('SQLite transactions can only include adapters on the same database file');
+        }
+        return adapter.bindTransaction(db);
+      }
     };
   }
 
-  async disconnect(): Promise<void> {
+  // The registry hands out one handle per file; in-memory databases get their own
+  private sharesDatabase(other: SQLiteAdapter<unknown>): boolean {
+    return other.db === this.db;
+  }
+
+  private exec(sql: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      this.db.close((err: Error | null) => {
+      this.db.exec(sql, (err: Error | null) => {
         if (err) reject(err);
         else resolve();
       });
     });
   }
-
-  // Transaction support
-  async withTransaction<R>(
-    callback: (db: Database) => Promise<R>
-  ): Promise<R> {
-    await this.initialize();
-
-    return new Promise<R>((resolve, reject) => {
-      this.db.exec('BEGIN', async (err: Error | null) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-
-        try {
-          const result = await callback(this.db);
-          this.db.exec('COMMIT', (err: Error | null) => {
-            if (err) reject(err);
-            else resolve(result);
-          });
-        } catch (error) {
-          this.db.exec('ROLLBACK', () => {
-            reject(error);
-          });
-        }
-      });
-    });
-  }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,276 @@
+import { Database } from 'sqlite3';
+import {
+  AppendOptions,
+  EventHandler,
+  EventStore,
+  StateEvent,
+  StateSnapshot,
+  SubscribeOptions,
+  Subscription
+} from '../types';
+import { ConnectionRegistry } from './connections';
+import { ConcurrencyError } from './errors';
+import { EventSubscription } from './event-subscription';
+import { UpcasterRegistry, schemaVersionFor } from './upcasting';
+
+export interface SQLiteEventStoreConfig {
+  filename: string;
+  upcasters?: UpcasterRegistry;
+}
+
+interface EventRow {
+  id: number;
+  stream_id: string;
+  type: string;
+  data: string;
+  metadata: string;
+}
+
+interface SnapshotRow {
+  state: string;
+  version: number;
+  created_at: string;
+}
+
+export class SQLiteEventStore implements EventStore {
+  private db: Database;
+  private isInitialized = false;
+  private released = false;
+  private subscriptions = new Set<EventSubscription>();
+
+  constructor(private readonly config: SQLiteEventStoreConfig) {
+    this.db = ConnectionRegistry.openSQLite(config.filename);
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    await this.withTurn(() => this.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(stream_id, version)
+      );
+
+      CREATE TABLE IF NOT EXISTS snapshots (
+        stream_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_events_stream_version
+      ON events(stream_id, version);
+    `));
+
+    this.isInitialized = true;
+  }
+
+  async disconnect(): Promise<void> {
+    for (const subscription of Array.from(this.subscriptions)) {
+      await subscription.stop();
+    }
+
+    if (this.released) return;
+    this.released = true;
+    await ConnectionRegistry.releaseSQLite(this.db);
+  }
+
+  async append(streamId: string, events: StateEvent[], options: AppendOptions = {}): Promise<void> {
+    await this.initialize();
+
+    await this.withTurn(() => this.appendInTransaction(streamId, events, options));
+    // Outside the turn, so subscription polls don't start out holding it
+    this.subscriptions.forEach(subscription => subscription.notify());
+  }
+
+  private async appendInTransaction(
+    streamId: string,
+    events: StateEvent[],
+    options: AppendOptions
+  ): Promise<void> {
+    let currentVersion = -1;
+
+    // IMMEDIATE takes the write lock up front, guarding against other processes
+    await this.exec('BEGIN IMMEDIATE');
+    try {
+      const row = await this.get<{ max_version: number }>(
+        `SELECT COALESCE(MAX(version), -1) as max_version
+         FROM events
+         WHERE stream_id = ?`,
+        [streamId]
+      );
+      currentVersion = row ? row.max_version : -1;
+
+      if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+        throw new ConcurrencyError(streamId, options.expectedVersion, currentVersion);
+      }
+
+      for (let i = 0; i < events.length; i++) {
+        const event = events[i];
+        const version = currentVersion + 1 + i;
+
+        await this.run(
+          `INSERT INTO events (stream_id, version, type, data, metadata)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            streamId,
+            version,
+            event.type,
+            JSON.stringify(event.data),
+            JSON.stringify({
+              ...event.metadata,
+              version,
+              schemaVersion: schemaVersionFor(event, this.config.upcasters)
+            })
+          ]
+        );
+      }
+
+      await this.exec('COMMIT');
+    } catch (error) {
+      await this.exec('ROLLBACK');
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT') {
+        throw new ConcurrencyError(streamId, options.expectedVersion, currentVersion);
+      }
+      throw error;
+    }
+  }
+
+  async read(streamId: string, fromVersion = 0): Promise<StateEvent[]> {
+    await this.initialize();
+
+    const rows = await this.withTurn(() => this.all<EventRow>(
+      `SELECT id, stream_id, type, data, metadata
+       FROM events
+       WHERE stream_id = ? AND version >= ?
+       ORDER BY version ASC`,
+      [streamId, fromVersion]
+    ));
+
+    return rows.map(row => this.toEvent(row));
+  }
+
+  // AUTOINCREMENT ids give the global order; appends hold the write lock, so
+  // ids become visible in order
+  async readAll(fromPosition = 0, limit = 100): Promise<StateEvent[]> {
+    await this.initialize();
+
+    const rows = await this.withTurn(() => this.all<EventRow>(
+      `SELECT id, stream_id, type, data, metadata
+       FROM events
+       WHERE id > ?
+       ORDER BY id ASC
+       LIMIT ?`,
+      [fromPosition, limit]
+    ));
+
+    return rows.map(row => this.toEvent(row));
+  }
+
+  subscribe(
+    streamPattern: string | RegExp,
+    handler: EventHandler,
+    options: SubscribeOptions = {}
+  ): Subscription {
+    const subscription: EventSubscription = new EventSubscription(
+      (fromPosition, limit) => this.readAll(fromPosition, limit),
+      streamPattern,
+      handler,
+      options,
+      () => this.subscriptions.delete(subscription)
+    );
+    this.subscriptions.add(subscription);
+    return subscription.start();
+  }
+
+  private toEvent(row: EventRow): StateEvent {
+    const event: StateEvent = {
+      type: row.type,
+      data: JSON.parse(row.data),
+      metadata: JSON.parse(row.metadata),
+      streamId: row.stream_id,
+      position: row.id
+    };
+    return this.config.upcasters ? this.config.upcasters.upcast(event) : event;
+  }
+
+  async getSnapshot(streamId: string): Promise<StateSnapshot | null> {
+    await this.initialize();
+
+    const row = await this.withTurn(() => this.get<SnapshotRow>(
+      `SELECT state, version, created_at
+       FROM snapshots
+       WHERE stream_id = ?`,
+      [streamId]
+    ));
+
+    if (!row) return null;
+
+    return {
+      state: JSON.parse(row.state),
+      version: row.version,
+      // CURRENT_TIMESTAMP is stored as UTC without a zone designator
+      timestamp: new Date(`${row.created_at.replace(' ', 'T')}Z`).getTime()
+    };
+  }
+
+  async saveSnapshot(streamId: string, snapshot: StateSnapshot): Promise<void> {
+    await this.initialize();
+
+    await this.withTurn(() => this.run(
+      `INSERT INTO snapshots (stream_id, version, state)
+       VALUES (?, ?, ?)
+       ON CONFLICT (stream_id)
+       DO UPDATE SET version = excluded.version, state = excluded.state, created_at = CURRENT_TIMESTAMP`,
+      [streamId, snapshot.version, JSON.stringify(snapshot.state)]
+    ));
+  }
+
+  // The handle is shared with other stores and adapters on the same file, and
+  // a statement sent during someone else's transaction would join it
+  private withTurn<R>(work: () => Promise<R>): Promise<R> {
+    return ConnectionRegistry.withSQLite(this.db, work);
+  }
+
+  private exec(sql: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.db.exec(sql, (err: Error | null) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private run(sql: string, params: unknown[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.db.run(sql, params, (err: Error | null) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private get<R>(sql: string, params: unknown[]): Promise<R | undefined> {
+    return new Promise<R | undefined>((resolve, reject) => {
+      this.db.get(sql, params, (err: Error | null, row: R | undefined) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+  }
+
+  private all<R>(sql: string, params: unknown[]): Promise<R[]> {
+    return new Promise<R[]>((resolve, reject) => {
+      this.db.all(sql, params, (err: Error | null, rows: R[]) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+  }
+}
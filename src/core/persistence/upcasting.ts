@@ -0,0 +1,56 @@
+import { StateEvent } from '../types';
+
+// Converts an event payload from one schema version to the next
+export type Upcaster = (data: unknown, event: StateEvent) => unknown;
+
+// Upgrades stored events to the current shape as they are read, so event
+// payloads can evolve without rewriting history
+export class UpcasterRegistry {
+  private readonly upcasters = new Map<string, Map<number, Upcaster>>();
+
+  // Register the upcaster from `fromVersion` to `fromVersion + 1` for an event type
+  register(type: string, fromVersion: number, upcaster: Upcaster): this {
+    const forType = this.upcasters.get(type) || new Map<number, Upcaster>();
+    if (forType.has(fromVersion)) {
+      throw new Error(`Upcaster already registered for ${type} v${fromVersion}`);
+    }
+
+    forType.set(fromVersion, upcaster);
+    this.upcasters.set(type, forType);
+    return this;
+  }
+
+  currentVersion(type: string): number {
+    const forType = this.upcasters.get(type);
+    return forType && forType.size > 0 ? Math.max(...forType.keys()) + 1 : 1;
+  }
+
+  upcast(event: StateEvent): StateEvent {
+    const forType = this.upcasters.get(event.type);
+    const storedVersion = event.metadata.schemaVersion || 1;
+    if (!forType) return event;
+
+    let version = storedVersion;
+    let data = event.data;
+    let upcaster = forType.get(version);
+
+    while (upcaster) {
+      data = upcaster(data, event);
+      version++;
+      upcaster = forType.get(version);
+    }
+
+    if (version === storedVersion) return event;
+
+    return {
+      ...event,
+      data,
+      metadata: { ...event.metadata, schemaVersion: version }
+    };
+  }
+}
+
+// The schema version recorded for a newly appended event
+export function schemaVersionFor(event: StateEvent, upcasters?: UpcasterRegistry): number {
+  return event.metadata.schemaVersion || (upcasters ? upcasters.currentVersion(event.type) : 1);
+}
@@ -1,14 +1,36 @@
-import { ServerComponent, FeatureState, Intent, StateChange, UserAction, ViewData } from './types';
+import { ServerComponent, FeatureState, Intent, Route, StateChange, StateHistoryFilter, UserAction, ViewData } from './types';
 import { TemplateEngine } from './templates';
-import { Request, Response } from 'express';
+import { ValidationError, validateParameters } from './validation';
+import { StateMachine } from './state-machine';
+import { StateHistory } from './state-history';
+import { StateSlot, createInitialState, runWithState } from './state-scope';
+import { PersistenceFactory } from './persistence/factory';
+import { IRouter, Request, Response, NextFunction } from 'express';
+
+export class RuntimeError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'RuntimeError';
+  }
+}
+
+export interface RuntimeOptions {
+  // Maximum state changes kept per component and session
+  historyLimit?: number;
+  // Maximum components and sessions with history; the least recently updated go first
+  historyKeyLimit?: number;
+}
 
 export class Runtime {
   private components: Map<string, ServerComponent> = new Map();
-  private stateHistory: StateChange[] = [];
+  private stateHistory: StateHistory;
+  private stateMachines: WeakMap<ServerComponent, StateMachine> = new WeakMap();
+  private sharedState: Map<string, unknown> = new Map();
   private templateEngine: TemplateEngine;
 
-  constructor(templatesDir: string) {
+  constructor(templatesDir: string, options: RuntimeOptions = {}) {
     this.templateEngine = new TemplateEngine(templatesDir);
+    this.stateHistory = new StateHistory(options.historyLimit, options.historyKeyLimit);
   }
 
   registerComponent(name: string, component: ServerComponent) {
@@ -23,9 +45,74 @@ export class Runtime {
     return new Map(this.components);
   }
 
+  // Build routes from the userActions declared by each component's intent
+  getRoutes(): Route[] {
+    const routes = new Map<string, Route>();
+
+    for (const component of this.components.values()) {
+      for (const action of component.intent.userActions) {
+        const existing = routes.get(action.path);
+
+        if (!existing) {
+          routes.set(action.path, {
+            path: action.path,
+            intent: component.intent,
+            component,
+            methods: [action.method]
+          });
+          continue;
+        }
+
+        if (existing.component !== component) {
+          throw new RuntimeError(
+            `Route conflict: ${action.path} is declared by both ` +
+            `${existing.intent.name} and ${component.intent.name}`
+          );
+        }
+
+        if (!existing.methods.includes(action.method)) {
+          existing.methods.push(action.method);
+        }
+      }
+    }
+
+    return Array.from(routes.values());
+  }
+
+  // Mount declared routes onto an Express app or router
+  mount(router: IRouter): Route[] {
+    const routes = this.getRoutes();
+
+    for (const route of routes) {
+      for (const method of route.methods) {
+        const action = route.intent.userActions.find(
+          a => a.path === route.path && a.method === method
+        );
+        const handler = async (req: Request, res: Response, next: NextFunction) => {
+          try {
+            await this.handleAction(route.component, req, res, action);
+          } catch (error) {
+            next(error);
+          }
+        };
+
+        if (method === 'GET') {
+          router.get(route.path, handler);
+        } else {
+          router.post(route.path, handler);
+        }
+      }
+    }
+
+    return routes;
+  }
+
   // Server-side rendering
-  async render(component: ServerComponent, data: ViewData): Promise<string> {
-    return component.render(data);
+  async render(component: ServerComponent, data: ViewData, req?: Request): Promise<string> {
+    if (!req) {
+      return component.render(data);
+    }
+    return this.withScopedState(component, req, undefined, () => component.render(data));
   }
 
   // Template rendering
@@ -37,14 +124,228 @@ export class Runtime {
   async handleAction(
     component: ServerComponent,
     req: Request,
-    res: Response
+    res: Response,
+    action: UserAction | undefined = this.findAction(component, req)
   ): Promise<void> {
-    await component.handleAction(req, res);
+    if (action?.parameters?.length) {
+      const isQuery = action.method === 'GET';
+      try {
+        const values = validateParameters(action, (isQuery ? req.query : req.body) || {});
+        if (isQuery) {
+          req.query = { ...req.query, ...values } as Request['query'];
+        } else {
+          req.body = { ...req.body, ...values };
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          this.rejectRequest(req, res, 400, error.errors.map(e => e.message).join('. '), {
+            error: error.name,
+            action: error.action.name,
+            errors: error.errors
+          });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    await this.withScopedState(component, req, res, async () => {
+      // Transitions are checked against the stored state, not a stale in-memory copy
+      if (component.loadState) {
+        await component.loadState();
+      }
+
+      const machine = this.getStateMachine(component);
+      if (machine && action) {
+        const current = machine.current(component.getState());
+        if (!machine.can(current, action)) {
+          this.rejectRequest(req, res, 409, `${action.name} is not allowed while ${current}`, {
+            error: 'InvalidTransitionError',
+            action: action.name,
+            state: current,
+            allowed: machine.getAllowedTransitions(current).map(t => t.via.name)
+          });
+          return;
+        }
+      }
+
+      // Snapshots, so in-place changes to nested state don't rewrite recorded history
+      const from = structuredClone(component.getState());
+      await component.handleAction(req, res);
+
+      if (component.persistState) {
+        await component.persistState();
+      }
+
+      if (action) {
+        this.stateHistory.record({
+          timestamp: Date.now(),
+          from,
+          to: structuredClone(component.getState()),
+          action,
+          component: this.getComponentName(component),
+          sessionId: req.sessionID
+        });
+      }
+    });
+  }
+
+  // Run `fn` with the component's state slice for this request bound, then store it back.
+  // Components without a stateScope or persistence config manage their own state.
+  // Given a response, the slice is stored before the response ends: express-session saves
+  // the session at that point, and a redirected browser may already be asking for the next
+  // page. Changes made after the response has ended are not stored.
+  private async withScopedState<R>(
+    component: ServerComponent,
+    req: Request,
+    res: Response | undefined,
+    fn: () => Promise<R>
+  ): Promise<R> {
+    const scope = component.stateScope || (component.persistence ? 'global' : undefined);
+    if (!scope) {
+      return fn();
+    }
+    if (scope === 'request') {
+      return runWithState(component, { value: undefined }, fn);
+    }
+
+    const name = this.getComponentName(component);
+    const userId = req.session?.userId;
+
+    let key: string;
+    if (scope === 'global') {
+      key = name;
+    } else if (scope === 'user' && userId) {
+      key = `${name}:user:${userId}`;
+    } else if (req.session) {
+      // Session scope, and user scope for anonymous visitors
+      key = `${name}:session:${req.sessionID}`;
+    } else {
+      throw new RuntimeError(`Component ${name} uses ${scope} state but no session is available`);
+    }
+    const inSession = key.startsWith(`${name}:session:`);
+
+    const adapter = component.persistence
+      ? await PersistenceFactory.createAdapter(`component:${name}`, {
+          table: 'component_state',
+          ...component.persistence
+        })
+      : undefined;
+
+    let current: unknown;
+    let revision = 0;
+    if (adapter) {
+      const record = await adapter.loadWithRevision(key);
+      current = record?.data;
+      revision = record?.revision ?? 0;
+    } else if (inSession) {
+      current = req.session.componentState?.[name];
+    } else {
+      current = this.sharedState.get(key);
+    }
+    if (current === undefined || current === null) {
+      current = createInitialState(component);
+    }
+
+    const slot: StateSlot = { value: current };
+    let stored: Promise<void> | undefined;
+    const store = (): Promise<void> => {
+      stored ??= (async () => {
+        if (adapter) {
+          // Rendering only reads the state. A request that raced another one for the
+          // same record fails with a RevisionConflictError rather than losing its update.
+          if (res) {
+            await adapter.save(key, slot.value, { ifRevision: revision });
+          }
+        } else if (inSession) {
+          req.session.componentState = { ...req.session.componentState, [name]: slot.value };
+        } else {
+          this.sharedState.set(key, slot.value);
+        }
+      })();
+      return stored;
+    };
+
+    const end = res?.end;
+    if (res && end) {
+      res.end = ((...args: Parameters<Response['end']>) => {
+        // A failed store is thrown from below instead, leaving the response to the error handler
+        store().then(() => end.apply(res, args), () => undefined);
+        return res;
+      }) as Response['end'];
+    }
+
+    try {
+      const result = await runWithState(component, slot, fn);
+      await store();
+      return result;
+    } finally {
+      if (res && end) {
+        res.end = end;
+      }
+    }
+  }
+
+  // Find the declared action matching a request's method and path
+  findAction(component: ServerComponent, req: Request): UserAction | undefined {
+    return component.intent.userActions.find(action =>
+      action.path === req.path && (!req.method || action.method === req.method)
+    );
+  }
+
+  // Form posts go back to the page with a flash; everything else gets a JSON error
+  private rejectRequest(
+    req: Request,
+    res: Response,
+    status: number,
+    message: string,
+    body: Record<string, unknown>
+  ): void {
+    if (req.method === 'POST' && req.session && req.is('application/x-www-form-urlencoded')) {
+      req.session.flash = { type: 'error', message };
+      res.redirect('back');
+      return;
+    }
+
+    res.status(status).json(body);
+  }
+
+  getStateMachine(component: ServerComponent): StateMachine | undefined {
+    if (!component.stateMachine) return undefined;
+
+    let machine = this.stateMachines.get(component);
+    if (!machine) {
+      machine = new StateMachine(component.stateMachine);
+      this.stateMachines.set(component, machine);
+    }
+    return machine;
+  }
+
+  // Render a registered component's state machine for docs or debugging
+  getStateGraph(name: string, format: 'dot' | 'mermaid' = 'mermaid'): string {
+    const component = this.components.get(name);
+    const machine = component && this.getStateMachine(component);
+    if (!machine) {
+      throw new RuntimeError(`Component ${name} does not declare a state machine`);
+    }
+    return format === 'dot' ? machine.toDot(name) : machine.toMermaid();
+  }
+
+  // Get state history for analysis, optionally filtered by component,
+  // action, session or time range
+  getStateHistory(filter: StateHistoryFilter = {}): StateChange[] {
+    return this.stateHistory.query(filter);
+  }
+
+  clearStateHistory(): void {
+    this.stateHistory.clear();
   }
 
-  // Get state history for analysis
-  getStateHistory(): StateChange[] {
-    return [...this.stateHistory];
+  private getComponentName(component: ServerComponent): string {
+    for (const [name, registered] of this.components) {
+      if (registered === component) return name;
+    }
+    return component.intent.name;
   }
 
   // Intent-based component lookup
@@ -0,0 +1,54 @@
+import { StateChange, StateHistoryFilter } from './types';
+
+const GLOBAL_SESSION = '__global';
+
+// Keeps the most recent state changes for each component and session.
+// Sessions come and go, so only the most recently updated keys are kept.
+export class StateHistory {
+  // Map order doubles as recency: a recorded key moves to the end
+  private readonly entries = new Map<string, StateChange[]>();
+
+  constructor(
+    private readonly limit = 100,
+    private readonly maxKeys = 1000
+  ) {}
+
+  record(change: StateChange): void {
+    const key = `${change.component || ''}:${change.sessionId || GLOBAL_SESSION}`;
+    const changes = this.entries.get(key) || [];
+
+    changes.push(change);
+    if (changes.length > this.limit) {
+      changes.splice(0, changes.length - this.limit);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, changes);
+
+    if (this.entries.size > this.maxKeys) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  query(filter: StateHistoryFilter = {}): StateChange[] {
+    const results: StateChange[] = [];
+
+    for (const changes of this.entries.values()) {
+      for (const change of changes) {
+        if (filter.component !== undefined && change.component !== filter.component) continue;
+        if (filter.sessionId !== undefined && change.sessionId !== filter.sessionId) continue;
+        if (filter.action !== undefined && change.action.name !== filter.action) continue;
+        if (filter.since !== undefined && change.timestamp < filter.since) continue;
+        if (filter.until !== undefined && change.timestamp > filter.until) continue;
+        results.push(change);
+      }
+    }
+
+    return results.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,93 @@
+import { StateMachineDefinition, StateTransition, UserAction } from './types';
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly action: string
+  ) {
+    super(`Action ${action} is not allowed from state ${from}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class StateMachine {
+  private readonly definition: StateMachineDefinition;
+
+  constructor(definition: StateMachineDefinition) {
+    const unknownStates = [
+      definition.initial,
+      ...definition.transitions.flatMap(t => [t.from, t.to])
+    ].filter(state => !definition.states.includes(state));
+
+    if (unknownStates.length > 0) {
+      throw new Error(`Unknown states in state machine: ${Array.from(new Set(unknownStates)).join(', ')}`);
+    }
+
+    this.definition = definition;
+  }
+
+  get states(): string[] {
+    return [...this.definition.states];
+  }
+
+  get initial(): string {
+    return this.definition.initial;
+  }
+
+  current(state: unknown): string {
+    return this.definition.getCurrent(state);
+  }
+
+  // Actions that appear in no transition are not governed by the machine
+  governs(action: UserAction | string): boolean {
+    const name = typeof action === 'string' ? action : action.name;
+    return this.definition.transitions.some(t => t.via.name === name);
+  }
+
+  getAllowedTransitions(from: string): StateTransition[] {
+    return this.definition.transitions.filter(t => t.from === from);
+  }
+
+  can(from: string, action: UserAction | string): boolean {
+    return !this.governs(action) || this.find(from, action) !== undefined;
+  }
+
+  // Returns the target state, or throws if the action is not allowed from `from`
+  transition(from: string, action: UserAction | string): string {
+    const name = typeof action === 'string' ? action : action.name;
+    if (!this.governs(name)) return from;
+
+    const transition = this.find(from, name);
+    if (!transition) {
+      throw new InvalidTransitionError(from, name);
+    }
+    return transition.to;
+  }
+
+  toDot(name = 'state_machine'): string {
+    const lines = [
+      `digraph "${name}" {`,
+      '  rankdir=LR;',
+      '  "__start" [shape=point];',
+      ...this.definition.states.map(state => `  "${state}";`),
+      `  "__start" -> "${this.definition.initial}";`,
+      ...this.definition.transitions.map(t => `  "${t.from}" -> "${t.to}" [label="${t.via.name}"];`),
+      '}'
+    ];
+    return lines.join('\n');
+  }
+
+  toMermaid(): string {
+    const lines = [
+      'stateDiagram-v2',
+      `  [*] --> ${this.definition.initial}`,
+      ...this.definition.transitions.map(t => `  ${t.from} --> ${t.to}: ${t.via.name}`)
+    ];
+    return lines.join('\n');
+  }
+
+  private find(from: string, action: UserAction | string): StateTransition | undefined {
+    const name = typeof action === 'string' ? action : action.name;
+    return this.definition.transitions.find(t => t.from === from && t.via.name === name);
+  }
+}
@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ServerComponent } from './types';
+
+export interface StateSlot {
+  value: unknown;
+}
+
+const storage = new AsyncLocalStorage<Map<ServerComponent, StateSlot>>();
+
+// Used outside of a runtime-managed request, e.g. when a component is called directly
+const fallbackSlots = new WeakMap<ServerComponent, StateSlot>();
+
+export function createInitialState(component: ServerComponent): unknown {
+  return component.initialState ? component.initialState() : {};
+}
+
+// Run `fn` with `slot` bound as the component's current state slice. The
+// caller keeps the slot, so it can store the value back while `fn` is still
+// running, e.g. when the response ends.
+export function runWithState<R>(
+  component: ServerComponent,
+  slot: StateSlot,
+  fn: () => Promise<R>
+): Promise<R> {
+  const slots = new Map(storage.getStore());
+  slots.set(component, slot);
+  return storage.run(slots, fn);
+}
+
+function getSlot(component: ServerComponent): StateSlot {
+  const slot = storage.getStore()?.get(component);
+  if (slot) return slot;
+
+  let fallback = fallbackSlots.get(component);
+  if (!fallback) {
+    fallback = { value: createInitialState(component) };
+    fallbackSlots.set(component, fallback);
+  }
+  return fallback;
+}
+
+// Whether the runtime bound a slot for the component in the current request
+export function hasScopedState(component: ServerComponent): boolean {
+  return Boolean(storage.getStore()?.has(component));
+}
+
+export function getScopedState<T>(component: ServerComponent): T {
+  return getSlot(component).value as T;
+}
+
+export function setScopedState<T>(component: ServerComponent, value: T): void {
+  getSlot(component).value = value;
+}
@@ -1,4 +1,17 @@
 import { Request, Response } from 'express';
+import { AdapterConfig } from './persistence/factory';
+
+// Extend express-session types
+declare module 'express-session' {
+  interface SessionData {
+    flash?: {
+      type: string;
+      message: string;
+    };
+    userId?: string;
+    componentState?: Record<string, unknown>;
+  }
+}
 
 export interface Intent {
   name: string;
@@ -24,6 +37,11 @@ export interface ActionParameter {
   required: boolean;
 }
 
+export interface ParameterError {
+  parameter: string;
+  message: string;
+}
+
 export interface FeatureState<T = unknown> {
   intent: Intent;
   currentState: T;
@@ -37,11 +55,29 @@ export interface StateTransition {
   via: UserAction;
 }
 
+export interface StateMachineDefinition {
+  states: string[];
+  initial: string;
+  transitions: StateTransition[];
+  // Reads the machine's current state name from the component state
+  getCurrent: (state: unknown) => string;
+}
+
 export interface StateChange {
   timestamp: number;
   from: unknown;
   to: unknown;
   action: UserAction;
+  component?: string;
+  sessionId?: string;
+}
+
+export interface StateHistoryFilter {
+  component?: string;
+  action?: string;
+  sessionId?: string;
+  since?: number;
+  until?: number;
 }
 
 export interface ViewData {
@@ -52,16 +88,118 @@ export interface ViewData {
   message?: string;
 }
 
+export type FilterValue = string | number | boolean | null;
+
+export interface FilterOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $in?: FilterValue[];
+  // Array element, or substring of a string field
+  $contains?: FilterValue;
+}
+
+// Keys are field names or dotted paths ('owner.id'); nested objects without
+// operators are read as nested paths
+export interface QueryFilter {
+  [path: string]: FilterValue | FilterOperators | QueryFilter;
+}
+
+export interface QueryOptions {
+  sort?: Record<string, 'asc' | 'desc'>;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SaveOptions {
+  // Only write if the stored revision still matches; 0 means the key must
+  // not exist yet. Stale writes fail with a RevisionConflictError.
+  ifRevision?: number;
+  // Hide the record from reads this long after saving; saving without a TTL
+  // makes it permanent again. Expired rows are deleted by sweep().
+  ttlMs?: number;
+}
+
+export interface ScanOptions {
+  // Records fetched per round trip
+  batchSize?: number;
+}
+
+export interface Revisioned<T> {
+  data: T;
+  revision: number;
+}
+
 export interface PersistenceAdapter<T = unknown> {
-  save(key: string, data: T): Promise<void>;
+  // Resolves with the new revision, which starts at 1 and grows by one per save
+  save(key: string, data: T, options?: SaveOptions): Promise<number>;
+  load(key: string): Promise<T | null>;
+  loadWithRevision(key: string): Promise<Revisioned<T> | null>;
+  delete(key: string): Promise<void>;
+  query(filter: unknown, options?: QueryOptions): Promise<T[]>;
+  count(filter: unknown): Promise<number>;
+  // Saves every entry in one transaction, resolving with their revisions in
+  // order. Keys must be unique; ifRevision is not supported.
+  saveMany(entries: Array<[string, T]>, options?: Omit<SaveOptions, 'ifRevision'>): Promise<number[]>;
+  // Resolves with the records that exist, keyed by key
+  loadMany(keys: string[]): Promise<Map<string, T>>;
+  // Resolves with how many records were removed
+  deleteMany(keys: string[]): Promise<number>;
+  // Streams matching records in batches instead of loading them all at once
+  scan(filter?: unknown, options?: ScanOptions): AsyncIterableIterator<[string, T]>;
+  // Delete expired records, resolving with how many were removed
+  sweep(): Promise<number>;
+  // Commits when the callback resolves and rolls back when it throws
+  withTransaction<R>(callback: (tx: Transaction<T>) => Promise<R>): Promise<R>;
+}
+
+export interface Transaction<T = unknown> {
+  save(key: string, data: T, options?: SaveOptions): Promise<number>;
   load(key: string): Promise<T | null>;
+  loadWithRevision(key: string): Promise<Revisioned<T> | null>;
   delete(key: string): Promise<void>;
-  query(filter: unknown): Promise<T[]>;
+  query(filter: unknown, options?: QueryOptions): Promise<T[]>;
+  count(filter: unknown): Promise<number>;
+  // Include another adapter in this transaction. It must share the
+  // connection: the same Postgres database, the same SQLite file, or memory.
+  use<U>(adapter: PersistenceAdapter<U>): Transaction<U>;
 }
 
+export interface AppendOptions {
+  // Version of the last event the writer has seen, -1 for a new stream.
+  // Appending fails with a ConcurrencyError if the stream has moved on.
+  expectedVersion?: number;
+}
+
+export interface SubscribeOptions {
+  // Deliver events after this global position; 0 delivers everything
+  fromPosition?: number;
+  pollInterval?: number;
+  batchSize?: number;
+  // Called when reading or handling fails, with the position of the last
+  // event handled. The next poll retries from there. Defaults to logging.
+  onError?: (error: unknown, position: number) => void;
+}
+
+export interface Subscription {
+  // Global position of the last event handled
+  readonly position: number;
+  // Deliver any events appended since the last poll
+  poll(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export type EventHandler = (event: StateEvent) => Promise<void> | void;
+
 export interface EventStore {
-  append(streamId: string, events: StateEvent[]): Promise<void>;
+  append(streamId: string, events: StateEvent[], options?: AppendOptions): Promise<void>;
   read(streamId: string, fromVersion?: number): Promise<StateEvent[]>;
+  // Events from every stream in global order, after the given position
+  readAll(fromPosition?: number, limit?: number): Promise<StateEvent[]>;
+  subscribe(streamPattern: string | RegExp, handler: EventHandler, options?: SubscribeOptions): Subscription;
   getSnapshot(streamId: string): Promise<StateSnapshot | null>;
   saveSnapshot(streamId: string, snapshot: StateSnapshot): Promise<void>;
 }
@@ -73,7 +211,12 @@ export interface StateEvent {
     timestamp: number;
     version: number;
     userId?: string;
+    // Shape version of `data`; events stored without one are version 1
+    schemaVersion?: number;
   };
+  // Set by the event store when events are read
+  streamId?: string;
+  position?: number;
 }
 
 export interface StateSnapshot {
@@ -82,6 +225,11 @@ export interface StateSnapshot {
   timestamp: number;
 }
 
+// Who shares a component's state: everyone, each session, or each signed-in user.
+// 'request' gives every request its own empty slot that is never stored; the
+// component fills it itself, e.g. in loadState.
+export type StateScope = 'global' | 'session' | 'user' | 'request';
+
 export interface ServerComponent {
   intent: Intent;
   render: (data: ViewData) => Promise<string>;
@@ -89,6 +237,11 @@ export interface ServerComponent {
   getState: () => unknown;
   persistState?: () => Promise<void>;
   loadState?: () => Promise<void>;
+  stateMachine?: StateMachineDefinition;
+  stateScope?: StateScope;
+  initialState?: () => unknown;
+  // Where the runtime stores scoped state; implies 'global' scope if stateScope is unset
+  persistence?: AdapterConfig;
 }
 
 export interface Route {
@@ -0,0 +1,88 @@
+import { ActionParameter, ParameterError, UserAction } from './types';
+
+export class ValidationError extends Error {
+  constructor(
+    public readonly action: UserAction,
+    public readonly errors: ParameterError[]
+  ) {
+    super(`Invalid parameters for ${action.name}: ${errors.map(e => e.message).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+const TRUE_VALUES = ['true', 'on', 'yes', '1'];
+const FALSE_VALUES = ['false', 'off', 'no', '0'];
+
+// Validate and coerce raw request input against an action's declared parameters.
+// Returns the coerced values, or throws a ValidationError listing every failure.
+export function validateParameters(
+  action: UserAction,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  const errors: ParameterError[] = [];
+
+  for (const parameter of action.parameters || []) {
+    const raw = input[parameter.name];
+
+    // Whitespace-only fields count as missing rather than coercing to 0
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+      if (parameter.required) {
+        errors.push({ parameter: parameter.name, message: `${parameter.name} is required` });
+      }
+      continue;
+    }
+
+    try {
+      values[parameter.name] = coerce(parameter, raw);
+    } catch (error) {
+      errors.push({ parameter: parameter.name, message: (error as Error).message });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(action, errors);
+  }
+
+  return values;
+}
+
+function coerce(parameter: ActionParameter, value: unknown): unknown {
+  switch (parameter.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`${parameter.name} must be a string`);
+      }
+      return value;
+
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error(`${parameter.name} must be a number`);
+      }
+      return number;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      throw new Error(`${parameter.name} must be a boolean`);
+    }
+
+    case 'array':
+      // A single form field arrives as a scalar rather than a one-item array
+      return Array.isArray(value) ? value : [value];
+
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${parameter.name} must be an object`);
+      }
+      return value;
+
+    default:
+      // Unknown types are passed through untouched
+      return value;
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
-import { ServerComponent, ViewData } from '../../core/types';
+import { ServerComponent, StateScope, ViewData } from '../../core/types';
+import { getScopedState } from '../../core/state-scope';
 import { counterIntent } from './intent';
 
 interface CounterState {
@@ -8,7 +9,15 @@ interface CounterState {
 
 export class CounterComponent implements ServerComponent {
   intent = counterIntent;
-  private state: CounterState = { count: 0 };
+  stateScope: StateScope = 'session';
+
+  initialState(): CounterState {
+    return { count: 0 };
+  }
+
+  private get state(): CounterState {
+    return getScopedState<CounterState>(this);
+  }
 
   async render(data: ViewData): Promise<string> {
     return `
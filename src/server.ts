@@ -7,16 +7,6 @@ import { Runtime } from './core/runtime';
 import { ViewData } from './core/types';
 import { IndexComponent } from './core/system/components/index.component';
 
-// Extend express-session types
-declare module 'express-session' {
-  interface SessionData {
-    flash?: {
-      type: string;
-      message: string;
-    };
-  }
-}
-
 const app = express();
 const port = process.env.PORT || 3000;
 
@@ -55,11 +45,6 @@ app.set('views', path.join(__dirname, 'templates'));
 // Serve static files
 app.use(express.static('public'));
 
-// System routes
-app.get('/docs', async (req: Request, res: Response) => {
-  await runtime.handleAction(indexComponent, req, res);
-});
-
 // Main route
 app.get('/', async (req: Request, res: Response) => {
   const viewData: ViewData = {
@@ -72,10 +57,14 @@ app.get('/', async (req: Request, res: Response) => {
   // Clear flash message after use
   delete req.session.flash;
   
-  const html = await runtime.render(indexComponent, viewData);
+  const html = await runtime.render(indexComponent, viewData, req);
   res.send(html);
 });
 
+// Component routes, generated from each intent's declared userActions.
+// Mounted after the main route so the rendered index page takes precedence.
+runtime.mount(app);
+
 // Error handling middleware
 app.use(async (err: Error, req: Request, res: Response, next: NextFunction) => {
   if (err.name === 'UnauthorizedError') {